@@ -0,0 +1,78 @@
+import { config, logger } from './config.js';
+import { ValidationError } from './errors.js';
+import { type AccountStatus, TwitterIntegration } from './twitter-integration.js';
+
+/**
+ * AccountRegistry holds one TwitterIntegration per configured account.
+ * Integrations are created on first use and log in lazily, so unused
+ * accounts never touch Twitter.
+ */
+export class AccountRegistry {
+  private static instance: AccountRegistry;
+  private readonly integrations = new Map<string, TwitterIntegration>();
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of AccountRegistry.
+   */
+  public static getInstance(): AccountRegistry {
+    if (!AccountRegistry.instance) {
+      AccountRegistry.instance = new AccountRegistry();
+    }
+    return AccountRegistry.instance;
+  }
+
+  /**
+   * Get the integration for an account, or for the default account if none is given.
+   */
+  get(account?: string): TwitterIntegration {
+    const name = account || config.DEFAULT_ACCOUNT;
+
+    if (!config.ACCOUNTS.includes(name)) {
+      throw new ValidationError(
+        `Unknown account: ${name}. Configured accounts: ${config.ACCOUNTS.join(', ')}`,
+      );
+    }
+
+    let integration = this.integrations.get(name);
+    if (!integration) {
+      integration = new TwitterIntegration(name);
+      this.integrations.set(name, integration);
+    }
+
+    return integration;
+  }
+
+  /**
+   * Report the status of every configured account.
+   */
+  async list(): Promise<Array<AccountStatus & { default: boolean }>> {
+    return Promise.all(
+      config.ACCOUNTS.map(async (name) => ({
+        ...(await this.get(name).getStatus()),
+        default: name === config.DEFAULT_ACCOUNT,
+      })),
+    );
+  }
+
+  /**
+   * Clean up all accounts that have been used.
+   */
+  async cleanup(): Promise<void> {
+    for (const integration of this.integrations.values()) {
+      try {
+        await integration.cleanup();
+      } catch (error) {
+        logger.error(
+          `Error cleaning up account "${integration.account}": ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { randomUUID } from 'crypto';
+
+import { logger } from './config.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import { JsonFileStore } from './storage.js';
+
+/**
+ * Lifecycle of a queued write action
+ */
+export type PendingActionStatus = 'pending' | 'approved' | 'rejected' | 'failed';
+
+/**
+ * Arguments a reviewer may edit before approving, per tool: the content of the post, never
+ * the account, the target or the idempotency key
+ */
+const EDITABLE_ARGUMENTS: Record<string, string[]> = {
+  sendTweet: ['text', 'mediaIds'],
+  sendTweetWithMedia: ['text', 'media'],
+  quoteTweet: ['text', 'media'],
+  sendThread: ['segments'],
+  scheduleTweet: ['text', 'media'],
+  publishDraft: ['text', 'media'],
+};
+
+/**
+ * A write tool call waiting for (or having received) human sign-off
+ */
+export interface PendingAction {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  requestedBy: { name: string; version: string } | null;
+  status: PendingActionStatus;
+  createdAt: string;
+  updatedAt: string;
+  reason?: string;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * ApprovalQueue persists write actions that need human approval before they run.
+ * The queue lives in the local data directory so that actions survive restarts
+ * and can be approved from a different server process.
+ */
+export class ApprovalQueue {
+  private static instance: ApprovalQueue;
+  private readonly store = new JsonFileStore<PendingAction[]>('pending-actions.json', () => []);
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of ApprovalQueue.
+   */
+  public static getInstance(): ApprovalQueue {
+    if (!ApprovalQueue.instance) {
+      ApprovalQueue.instance = new ApprovalQueue();
+    }
+    return ApprovalQueue.instance;
+  }
+
+  /**
+   * Queue a write action for approval.
+   */
+  enqueue(
+    tool: string,
+    args: Record<string, unknown>,
+    requestedBy: PendingAction['requestedBy'],
+  ): PendingAction {
+    const now = new Date().toISOString();
+    const action: PendingAction = {
+      id: randomUUID(),
+      tool,
+      arguments: args,
+      requestedBy,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.update((actions) => actions.push(action));
+    logger.info(`Queued ${tool} for approval as action ${action.id}`);
+
+    return action;
+  }
+
+  /**
+   * List queued actions, optionally filtered by status.
+   */
+  list(status?: PendingActionStatus): PendingAction[] {
+    const actions = this.store.read();
+    return status ? actions.filter((action) => action.status === status) : actions;
+  }
+
+  /**
+   * Get a pending action with argument edits applied, without claiming it, so that the
+   * action can be validated as it will run before it is approved.
+   */
+  preview(id: string, edits?: Record<string, unknown>): PendingAction {
+    const action = this.store.read().find((item) => item.id === id);
+    if (!action) {
+      throw new NotFoundError(`Pending action not found: ${id}`);
+    }
+
+    if (action.status !== 'pending') {
+      throw new ValidationError(`Action ${id} is already ${action.status}`);
+    }
+
+    return { ...action, arguments: this.applyEdits(action, edits) };
+  }
+
+  /**
+   * Claim a pending action for execution, applying any argument edits.
+   * The action is marked approved before it runs so it cannot be approved twice.
+   */
+  approve(id: string, edits?: Record<string, unknown>): PendingAction {
+    return this.transition(id, (action) => {
+      action.status = 'approved';
+      action.arguments = this.applyEdits(action, edits);
+    });
+  }
+
+  /**
+   * Reject a pending action so that it never runs.
+   */
+  reject(id: string, reason?: string): PendingAction {
+    return this.transition(id, (action) => {
+      action.status = 'rejected';
+      action.reason = reason;
+    });
+  }
+
+  /**
+   * Record the outcome of an approved action.
+   */
+  recordOutcome(id: string, outcome: { result?: unknown; error?: string }): PendingAction {
+    return this.store.update((actions) => {
+      const action = actions.find((item) => item.id === id);
+      if (!action) {
+        throw new NotFoundError(`Pending action not found: ${id}`);
+      }
+
+      action.updatedAt = new Date().toISOString();
+      if (outcome.error) {
+        action.status = 'failed';
+        action.error = outcome.error;
+      } else {
+        action.result = outcome.result;
+      }
+
+      return { ...action };
+    });
+  }
+
+  /**
+   * Apply a reviewer's edits to an action's arguments. Only the content fields of the
+   * action's tool can be edited.
+   */
+  private applyEdits(
+    action: PendingAction,
+    edits?: Record<string, unknown>,
+  ): Record<string, unknown> {
+    if (edits === undefined) {
+      return action.arguments;
+    }
+
+    if (typeof edits !== 'object' || edits === null || Array.isArray(edits)) {
+      throw new ValidationError("Parameter 'edits' must be an object");
+    }
+
+    const editable = EDITABLE_ARGUMENTS[action.tool] ?? [];
+    const forbidden = Object.keys(edits).filter((key) => !editable.includes(key));
+    if (forbidden.length > 0) {
+      throw new ValidationError(
+        editable.length > 0
+          ? `Only ${editable.join(', ')} can be edited for ${action.tool}, not: ${forbidden.join(', ')}`
+          : `${action.tool} actions cannot be edited`,
+      );
+    }
+
+    return { ...action.arguments, ...edits };
+  }
+
+  /**
+   * Apply a status change to an action that is still pending.
+   */
+  private transition(id: string, change: (action: PendingAction) => void): PendingAction {
+    return this.store.update((actions) => {
+      const action = actions.find((item) => item.id === id);
+      if (!action) {
+        throw new NotFoundError(`Pending action not found: ${id}`);
+      }
+
+      if (action.status !== 'pending') {
+        throw new ValidationError(`Action ${id} is already ${action.status}`);
+      }
+
+      change(action);
+      action.updatedAt = new Date().toISOString();
+
+      return { ...action };
+    });
+  }
+}
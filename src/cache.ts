@@ -0,0 +1,291 @@
+import { type CacheType, config, logger } from './config.js';
+import { JsonFileStore } from './storage.js';
+
+/**
+ * A cached value and when it expires
+ */
+interface CacheEntry {
+  account: string;
+  type: CacheType;
+  key: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Hit and miss counts and the current size of one cache type
+ */
+export interface CacheTypeStats {
+  type: CacheType;
+  entries: number;
+  hits: number;
+  misses: number;
+  ttlMs: number;
+}
+
+/**
+ * Entries to remove from the cache. Omitted fields match every entry.
+ */
+export interface CacheFilter {
+  account?: string;
+  type?: CacheType;
+  key?: string;
+}
+
+/**
+ * How long to wait before writing changes to the on-disk cache, so that bursts of
+ * lookups result in a single write
+ */
+const DISK_WRITE_DELAY_MS = 1000;
+
+/**
+ * Fields of profiles and tweets that hold dates, which are stored as strings on disk
+ */
+const DATE_FIELDS = new Set(['joined', 'timeParsed']);
+
+/**
+ * Turn the date fields of a value read from disk back into Dates.
+ */
+function reviveDates(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    value.forEach(reviveDates);
+  } else if (value && typeof value === 'object') {
+    for (const [field, nested] of Object.entries(value)) {
+      if (DATE_FIELDS.has(field) && typeof nested === 'string') {
+        (value as Record<string, unknown>)[field] = new Date(nested);
+      } else {
+        reviveDates(nested);
+      }
+    }
+  }
+  return value;
+}
+
+/**
+ * ResponseCache keeps recently fetched profiles, tweets and username → user ID mappings,
+ * so that repeated lookups within a short time do not hit Twitter again.
+ *
+ * The cache is a single LRU of up to CACHE_MAX_ENTRIES entries shared by all accounts,
+ * with a TTL per type of data. With CACHE_PERSIST=true the entries are also kept in the
+ * data directory and survive restarts.
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  // Map iteration order is insertion order, so the first entry is the least recently used
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly counters = new Map<CacheType, { hits: number; misses: number }>();
+  private readonly diskStore = config.CACHE_PERSIST
+    ? new JsonFileStore<CacheEntry[]>('cache.json', () => [])
+    : null;
+  private diskWrite: NodeJS.Timeout | null = null;
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    this.loadFromDisk();
+  }
+
+  /**
+   * Get the singleton instance of ResponseCache.
+   */
+  public static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  /**
+   * Get a cached value, or undefined if it is missing or expired.
+   */
+  get<T>(account: string, type: CacheType, key: string): T | undefined {
+    const cacheKey = this.cacheKey(account, type, key);
+    const entry = this.entries.get(cacheKey);
+    const counter = this.counter(type);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(cacheKey);
+      }
+      counter.misses++;
+      return undefined;
+    }
+
+    // Move the entry to the end, marking it as most recently used
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, entry);
+    counter.hits++;
+    return entry.value as T;
+  }
+
+  /**
+   * Cache a value, evicting the least recently used entries when the cache is full.
+   */
+  set<T>(account: string, type: CacheType, key: string, value: T): void {
+    const ttlMs = config.CACHE_TTLS[type];
+    if (config.CACHE_MAX_ENTRIES === 0 || ttlMs === 0) {
+      return;
+    }
+
+    const cacheKey = this.cacheKey(account, type, key);
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, {
+      account,
+      type,
+      key: key.toLowerCase(),
+      value,
+      expiresAt: Date.now() + ttlMs,
+    });
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= config.CACHE_MAX_ENTRIES) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+
+    this.scheduleDiskWrite();
+  }
+
+  /**
+   * Get a cached value, fetching and caching it on a miss.
+   *
+   * @param fresh Skip the cached value and fetch a new one
+   */
+  async getOrFetch<T>(
+    account: string,
+    type: CacheType,
+    key: string,
+    fetch: () => Promise<T>,
+    fresh = false,
+  ): Promise<T> {
+    const cached = fresh ? undefined : this.get<T>(account, type, key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const value = await fetch();
+    this.set(account, type, key, value);
+    return value;
+  }
+
+  /**
+   * Remove matching entries and return how many were removed.
+   */
+  invalidate(filter: CacheFilter = {}): number {
+    const key = filter.key?.toLowerCase();
+    let removed = 0;
+
+    for (const [cacheKey, entry] of this.entries) {
+      if (
+        (!filter.account || entry.account === filter.account) &&
+        (!filter.type || entry.type === filter.type) &&
+        (!key || entry.key === key)
+      ) {
+        this.entries.delete(cacheKey);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.scheduleDiskWrite();
+    }
+    return removed;
+  }
+
+  /**
+   * Report the size, hit and miss counts of every cache type.
+   */
+  stats(): { maxEntries: number; persisted: boolean; types: CacheTypeStats[] } {
+    const now = Date.now();
+    const types = (Object.keys(config.CACHE_TTLS) as CacheType[]).map((type) => ({
+      type,
+      entries: [...this.entries.values()].filter(
+        (entry) => entry.type === type && entry.expiresAt > now,
+      ).length,
+      ...this.counter(type),
+      ttlMs: config.CACHE_TTLS[type],
+    }));
+
+    return { maxEntries: config.CACHE_MAX_ENTRIES, persisted: this.diskStore !== null, types };
+  }
+
+  /**
+   * Write pending changes to the on-disk cache immediately.
+   */
+  flush(): void {
+    if (this.diskWrite) {
+      clearTimeout(this.diskWrite);
+      this.diskWrite = null;
+    }
+
+    if (!this.diskStore) {
+      return;
+    }
+
+    try {
+      const now = Date.now();
+      this.diskStore.write([...this.entries.values()].filter((entry) => entry.expiresAt > now));
+    } catch (error) {
+      logger.warn(
+        `Failed to write response cache: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Load unexpired entries from the on-disk cache.
+   */
+  private loadFromDisk(): void {
+    if (!this.diskStore) {
+      return;
+    }
+
+    try {
+      const now = Date.now();
+      for (const entry of this.diskStore.read()) {
+        if (entry.expiresAt > now) {
+          reviveDates(entry.value);
+          this.entries.set(this.cacheKey(entry.account, entry.type, entry.key), entry);
+        }
+      }
+      logger.info(`Loaded ${this.entries.size} cached responses`);
+    } catch (error) {
+      logger.warn(
+        `Ignoring response cache: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Write the cache to disk shortly, if it is persisted.
+   */
+  private scheduleDiskWrite(): void {
+    if (!this.diskStore || this.diskWrite) {
+      return;
+    }
+
+    this.diskWrite = setTimeout(() => this.flush(), DISK_WRITE_DELAY_MS);
+    this.diskWrite.unref();
+  }
+
+  /**
+   * Get the hit and miss counter of a cache type.
+   */
+  private counter(type: CacheType): { hits: number; misses: number } {
+    let counter = this.counters.get(type);
+    if (!counter) {
+      counter = { hits: 0, misses: 0 };
+      this.counters.set(type, counter);
+    }
+    return counter;
+  }
+
+  /**
+   * Usernames are case-insensitive, so keys are compared in lower case.
+   */
+  private cacheKey(account: string, type: CacheType, key: string): string {
+    return `${account}:${type}:${key.toLowerCase()}`;
+  }
+}
@@ -1,22 +1,79 @@
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
+import { homedir } from 'os';
 import { dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 
-// Define types for configuration variables
+/**
+ * Categories of Twitter operations that share a rate limit budget
+ */
+export type RateLimitCategory = 'search' | 'profile' | 'followers' | 'tweet' | 'post';
+
+/**
+ * Kinds of Twitter data kept in the response cache
+ */
+export type CacheType = 'profile' | 'tweet' | 'userId' | 'relationship';
+
+/**
+ * How tweets and profiles are rendered in tool results
+ */
+export type OutputFormat = 'full' | 'compact' | 'markdown';
+
+/**
+ * What sendThread does when a segment fails to post: keep the posted segments so the
+ * thread can be resumed, or delete them
+ */
+export type ThreadFailureMode = 'resume' | 'rollback';
+
+// Define types for configuration variables.
+// Twitter credentials are deliberately not part of the config: they are held by the CredentialVault.
 interface Config {
-  TWITTER_USERNAME?: string;
-  TWITTER_PASSWORD?: string;
-  TWITTER_EMAIL?: string;
-  TWITTER_API_KEY?: string;
-  TWITTER_API_SECRET_KEY?: string;
-  TWITTER_ACCESS_TOKEN?: string;
-  TWITTER_ACCESS_TOKEN_SECRET?: string;
   PROXY_URL?: string;
+  ACCOUNT_PROXY_URLS: Record<string, string | undefined>;
   DEBUG?: boolean;
-  TWOFACTOR?: string;
+  INCLUDE_READ_TOOLS?: boolean;
+  INCLUDE_WRITE_TOOLS?: boolean;
+  ALLOWED_TOOLS?: string[];
+  DENIED_TOOLS?: string[];
+  DRY_RUN?: boolean;
+  APPROVAL_MODE?: boolean;
+  APPROVAL_REVIEWER?: boolean;
+  DATA_DIR: string;
+  TRANSPORT: 'stdio' | 'http';
+  HTTP_HOST: string;
+  HTTP_PORT: number;
+  HTTP_AUTH_TOKEN?: string;
+  HTTP_ALLOWED_HOSTS: string[];
+  HTTP_ALLOWED_ORIGINS: string[];
+  HTTP_SESSION_IDLE_MS: number;
+  PERSIST_SESSION: boolean;
+  VAULT_FILE: string;
+  RETAIN_CREDENTIALS: boolean;
+  ACCOUNTS: string[];
+  DEFAULT_ACCOUNT: string;
+  RETRY_MAX_ATTEMPTS: number;
+  RETRY_BASE_DELAY_MS: number;
+  RETRY_MAX_DELAY_MS: number;
+  RATE_LIMITS: Record<RateLimitCategory, { limit: number; windowMs: number }>;
+  RATE_LIMIT_MODE: 'fail' | 'queue';
+  RATE_LIMIT_MAX_WAIT_MS: number;
+  CACHE_MAX_ENTRIES: number;
+  CACHE_TTLS: Record<CacheType, number>;
+  CACHE_PERSIST: boolean;
+  OUTPUT_FORMAT: OutputFormat;
+  THREAD_FAILURE_MODE: ThreadFailureMode;
+  SCHEDULER_INTERVAL_MS: number;
+  MEDIA_TTL_MS: number;
+  MEDIA_MAX_BYTES: number;
+  MEDIA_ALLOWED_DIRS: string[];
+  MEDIA_RESIZE_IMAGES: boolean;
 }
 
+/**
+ * Name of the account configured by the unprefixed TWITTER_* variables
+ */
+export const MAIN_ACCOUNT = 'main';
+
 // Custom logger implementation
 export const logger = {
   error: (...args: unknown[]) =>
@@ -86,40 +143,158 @@ const loadEnv = (): void => {
 // Initialize environment loading
 loadEnv();
 
+// Parse an optional boolean flag, leaving it undefined when not set
+const parseBoolean = (value?: string): boolean | undefined =>
+  value === undefined || value === '' ? undefined : value === 'true';
+
+// Parse a comma-separated list, ignoring empty entries
+const parseList = (value?: string): string[] | undefined =>
+  value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Parse a rate limit budget given as "<requests>/<minutes>", e.g. "50/15"
+const parseRateLimit = (
+  value: string | undefined,
+  defaultLimit: number,
+  defaultMinutes = 15,
+): { limit: number; windowMs: number } => {
+  const [limit, minutes] = value ? value.split('/').map(Number) : [];
+  return {
+    limit: Number.isInteger(limit) && limit >= 0 ? limit : defaultLimit,
+    windowMs: (minutes > 0 ? minutes : defaultMinutes) * 60 * 1000,
+  };
+};
+
+// Parse a non-negative number, allowing 0 (e.g. to disable a feature)
+const parseNonNegative = (value: string | undefined, defaultValue: number): number => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : defaultValue;
+};
+
 // Export configuration object
+const DATA_DIR = resolve(process.env.DATA_DIR || resolve(homedir(), '.twitter-client-mcp'));
+const ACCOUNTS = [...new Set([MAIN_ACCOUNT, ...(parseList(process.env.TWITTER_ACCOUNTS) ?? [])])];
+
 export const config: Config = {
-  TWITTER_USERNAME: process.env.TWITTER_USERNAME,
-  TWITTER_PASSWORD: process.env.TWITTER_PASSWORD,
-  TWITTER_EMAIL: process.env.TWITTER_EMAIL,
-  TWITTER_API_KEY: process.env.TWITTER_API_KEY,
-  TWITTER_API_SECRET_KEY: process.env.TWITTER_API_SECRET_KEY,
-  TWITTER_ACCESS_TOKEN: process.env.TWITTER_ACCESS_TOKEN,
-  TWITTER_ACCESS_TOKEN_SECRET: process.env.TWITTER_ACCESS_TOKEN_SECRET,
   PROXY_URL: process.env.PROXY_URL,
+  // Accounts without their own TWITTER_<NAME>_PROXY_URL share PROXY_URL
+  ACCOUNT_PROXY_URLS: Object.fromEntries(
+    ACCOUNTS.map((account) => [
+      account,
+      process.env[accountEnvName(account, 'PROXY_URL')] || process.env.PROXY_URL,
+    ]),
+  ),
   DEBUG: process.env.DEBUG === 'true',
-  TWOFACTOR: process.env.TWOFACTOR,
+  INCLUDE_READ_TOOLS: parseBoolean(process.env.INCLUDE_READ_TOOLS),
+  INCLUDE_WRITE_TOOLS: parseBoolean(process.env.INCLUDE_WRITE_TOOLS),
+  ALLOWED_TOOLS: parseList(process.env.ALLOWED_TOOLS),
+  DENIED_TOOLS: parseList(process.env.DENIED_TOOLS),
+  DRY_RUN: process.env.DRY_RUN === 'true',
+  APPROVAL_MODE: process.env.APPROVAL_MODE === 'true',
+  APPROVAL_REVIEWER: process.env.APPROVAL_REVIEWER === 'true',
+  DATA_DIR,
+  TRANSPORT: process.env.TRANSPORT === 'http' ? 'http' : 'stdio',
+  HTTP_HOST: process.env.HTTP_HOST || '127.0.0.1',
+  HTTP_PORT: Number(process.env.HTTP_PORT) || 3000,
+  HTTP_AUTH_TOKEN: process.env.HTTP_AUTH_TOKEN,
+  HTTP_ALLOWED_HOSTS: parseList(process.env.HTTP_ALLOWED_HOSTS) ?? [],
+  HTTP_ALLOWED_ORIGINS: parseList(process.env.HTTP_ALLOWED_ORIGINS) ?? [],
+  HTTP_SESSION_IDLE_MS: parseNonNegative(process.env.HTTP_SESSION_IDLE_MS, 30 * 60 * 1000),
+  PERSIST_SESSION: process.env.PERSIST_SESSION !== 'false',
+  VAULT_FILE: resolve(process.env.VAULT_FILE || resolve(DATA_DIR, 'vault.json')),
+  RETAIN_CREDENTIALS: process.env.RETAIN_CREDENTIALS === 'true',
+  ACCOUNTS,
+  DEFAULT_ACCOUNT: process.env.DEFAULT_ACCOUNT || MAIN_ACCOUNT,
+  RETRY_MAX_ATTEMPTS: Math.max(1, Number(process.env.RETRY_MAX_ATTEMPTS) || 3),
+  RETRY_BASE_DELAY_MS: Number(process.env.RETRY_BASE_DELAY_MS) || 1000,
+  RETRY_MAX_DELAY_MS: Number(process.env.RETRY_MAX_DELAY_MS) || 30000,
+  RATE_LIMITS: {
+    search: parseRateLimit(process.env.RATE_LIMIT_SEARCH, 50),
+    profile: parseRateLimit(process.env.RATE_LIMIT_PROFILE, 95),
+    followers: parseRateLimit(process.env.RATE_LIMIT_FOLLOWERS, 50),
+    tweet: parseRateLimit(process.env.RATE_LIMIT_TWEET, 150),
+    post: parseRateLimit(process.env.RATE_LIMIT_POST, 50),
+  },
+  RATE_LIMIT_MODE: process.env.RATE_LIMIT_MODE === 'queue' ? 'queue' : 'fail',
+  RATE_LIMIT_MAX_WAIT_MS: Number(process.env.RATE_LIMIT_MAX_WAIT_MS) || 60000,
+  CACHE_MAX_ENTRIES: parseNonNegative(process.env.CACHE_MAX_ENTRIES, 1000),
+  CACHE_TTLS: {
+    profile: parseNonNegative(process.env.CACHE_PROFILE_TTL_MS, 5 * 60 * 1000),
+    tweet: parseNonNegative(process.env.CACHE_TWEET_TTL_MS, 60 * 1000),
+    userId: parseNonNegative(process.env.CACHE_USER_ID_TTL_MS, 24 * 60 * 60 * 1000),
+    relationship: parseNonNegative(process.env.CACHE_RELATIONSHIP_TTL_MS, 5 * 60 * 1000),
+  },
+  CACHE_PERSIST: process.env.CACHE_PERSIST === 'true',
+  OUTPUT_FORMAT: ['compact', 'markdown'].includes(process.env.OUTPUT_FORMAT ?? '')
+    ? (process.env.OUTPUT_FORMAT as OutputFormat)
+    : 'full',
+  THREAD_FAILURE_MODE: process.env.THREAD_FAILURE_MODE === 'rollback' ? 'rollback' : 'resume',
+  SCHEDULER_INTERVAL_MS: parseNonNegative(process.env.SCHEDULER_INTERVAL_MS, 30 * 1000),
+  MEDIA_TTL_MS: parseNonNegative(process.env.MEDIA_TTL_MS, 24 * 60 * 60 * 1000),
+  MEDIA_MAX_BYTES: parseNonNegative(process.env.MEDIA_MAX_BYTES, 1024 * 1024 * 1024),
+  MEDIA_ALLOWED_DIRS: (parseList(process.env.MEDIA_ALLOWED_DIRS) ?? []).map((dir) => resolve(dir)),
+  MEDIA_RESIZE_IMAGES: process.env.MEDIA_RESIZE_IMAGES === 'true',
 };
 
-// Validate environment
-export function validateEnv(): void {
-  const requiredVars: (keyof Config)[] = ['TWITTER_USERNAME', 'TWITTER_PASSWORD', 'TWITTER_EMAIL', 'TWOFACTOR'];
+/**
+ * Get the environment variable prefix for an account's settings.
+ * The main account uses the unprefixed variables (e.g. TWITTER_PASSWORD),
+ * other accounts use TWITTER_<NAME>_* (e.g. TWITTER_BRAND_PASSWORD).
+ */
+export function accountEnvName(account: string, name: string): string {
+  if (account === MAIN_ACCOUNT) {
+    return name;
+  }
 
-  const recommendedVars: (keyof Config)[] = ['PROXY_URL', 'DEBUG'];
+  const prefix = account.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  return `TWITTER_${prefix}_${name.replace(/^TWITTER_/, '')}`;
+}
 
-  const missingRequired = requiredVars.filter((v) => !config[v]);
-  if (missingRequired.length > 0) {
-    logger.error(
-      `Missing required variables: ${missingRequired.join(', ')}. Some functionality may not work.`,
-    );
-  }
+// Validate environment (credentials are validated by the CredentialVault)
+export function validateEnv(): void {
+  const recommendedVars: (keyof Config)[] = ['PROXY_URL', 'DEBUG'];
 
   const missingRecommended = recommendedVars.filter((v) => !config[v]);
   if (missingRecommended.length > 0) {
     logger.warn(`Missing recommended variables: ${missingRecommended.join(', ')}. Using defaults.`);
   }
+
+  if (!config.ACCOUNTS.includes(config.DEFAULT_ACCOUNT)) {
+    throw new Error(
+      `DEFAULT_ACCOUNT "${config.DEFAULT_ACCOUNT}" is not one of the configured accounts: ${config.ACCOUNTS.join(', ')}`,
+    );
+  }
+
+  for (const [account, proxyUrl] of Object.entries(config.ACCOUNT_PROXY_URLS)) {
+    if (proxyUrl && !URL.canParse(proxyUrl)) {
+      throw new Error(`Invalid proxy URL for account "${account}"`);
+    }
+  }
+
+  if (config.TRANSPORT === 'http' && !config.HTTP_AUTH_TOKEN) {
+    const isLoopback = ['127.0.0.1', '::1', 'localhost'].includes(config.HTTP_HOST);
+    if (!isLoopback) {
+      throw new Error(`HTTP_AUTH_TOKEN is required when listening on ${config.HTTP_HOST}`);
+    }
+    logger.warn('HTTP transport is running without HTTP_AUTH_TOKEN. Any local process can connect.');
+  }
 }
 
 // Debug startup message
 if (config.DEBUG) {
   logger.info('Starting Twitter MCP with debug mode enabled');
 }
+
+if (config.DRY_RUN) {
+  logger.warn('Dry-run mode enabled: write tools will only return previews');
+}
+
+if (config.APPROVAL_MODE) {
+  logger.info('Approval mode enabled: write tools will be queued for human approval');
+}
+
+if (config.APPROVAL_REVIEWER) {
+  logger.info('Reviewer server: pending actions can be approved and rejected');
+}
@@ -0,0 +1,235 @@
+import { existsSync } from 'fs';
+import sodium, { type SecureBuffer } from 'sodium-native';
+
+import { accountEnvName, config, logger } from './config.js';
+import { openBox, type SealedBox, sealBox } from './secret-box.js';
+import { JsonFileStore } from './storage.js';
+
+/**
+ * Credentials of an account. For accounts other than the main one, the
+ * environment variables are prefixed (see `accountEnvName`).
+ */
+export const CREDENTIAL_NAMES = [
+  'TWITTER_USERNAME',
+  'TWITTER_PASSWORD',
+  'TWITTER_EMAIL',
+  'TWOFACTOR',
+  'TWITTER_API_KEY',
+  'TWITTER_API_SECRET_KEY',
+  'TWITTER_ACCESS_TOKEN',
+  'TWITTER_ACCESS_TOKEN_SECRET',
+  'SESSION_SECRET',
+] as const;
+
+export type CredentialName = (typeof CREDENTIAL_NAMES)[number];
+
+const REQUIRED_CREDENTIALS: CredentialName[] = [
+  'TWITTER_USERNAME',
+  'TWITTER_PASSWORD',
+  'TWITTER_EMAIL',
+  'TWOFACTOR',
+];
+
+/**
+ * Encrypted vault file contents
+ */
+interface StoredVault extends SealedBox {
+  version: 1;
+  updatedAt: string;
+}
+
+/**
+ * Read and decrypt a vault file.
+ */
+export function readVaultFile(filePath: string, passphrase: Buffer): Record<string, string> {
+  const vault = new JsonFileStore<StoredVault | null>(filePath, () => null).read();
+  if (!vault) {
+    throw new Error(`Vault file not found: ${filePath}`);
+  }
+
+  const plaintext = openBox(vault, passphrase);
+  try {
+    return JSON.parse(plaintext.toString('utf8')) as Record<string, string>;
+  } finally {
+    sodium.sodium_memzero(plaintext);
+  }
+}
+
+/**
+ * Encrypt and write a vault file, replacing any existing one.
+ */
+export function writeVaultFile(
+  filePath: string,
+  secrets: Record<string, string>,
+  passphrase: Buffer,
+): void {
+  const plaintext = Buffer.from(JSON.stringify(secrets), 'utf8');
+  try {
+    const sealed = sealBox(plaintext, passphrase);
+    new JsonFileStore<StoredVault | null>(filePath, () => null).write({
+      version: 1,
+      updatedAt: new Date().toISOString(),
+      ...sealed,
+    });
+  } finally {
+    sodium.sodium_memzero(plaintext);
+  }
+}
+
+/**
+ * CredentialVault reads the Twitter credentials of every configured account
+ * once, removes them from `process.env` and keeps them in sodium secure memory
+ * (locked, and inaccessible except while being read).
+ *
+ * Credentials come from the environment and, optionally, from a
+ * passphrase-encrypted vault file (see `twitter-client-mcp-vault`).
+ * Environment variables take precedence over the vault file.
+ */
+export class CredentialVault {
+  private static instance: CredentialVault;
+  private readonly secrets = new Map<string, SecureBuffer>();
+  private readonly wipedAccounts = new Set<string>();
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    this.load();
+  }
+
+  /**
+   * Get the singleton instance of CredentialVault.
+   * The first call moves the credentials out of the environment.
+   */
+  public static getInstance(): CredentialVault {
+    if (!CredentialVault.instance) {
+      CredentialVault.instance = new CredentialVault();
+    }
+    return CredentialVault.instance;
+  }
+
+  /**
+   * Whether an account's credentials have been wiped after login.
+   */
+  isWiped(account: string): boolean {
+    return this.wipedAccounts.has(account);
+  }
+
+  /**
+   * Check whether a credential is available.
+   */
+  has(account: string, name: CredentialName): boolean {
+    return this.secrets.has(accountEnvName(account, name));
+  }
+
+  /**
+   * Read a credential. The returned string is a short-lived copy for immediate use.
+   */
+  get(account: string, name: CredentialName): string | undefined {
+    const buffer = this.secrets.get(accountEnvName(account, name));
+    if (!buffer) {
+      return undefined;
+    }
+
+    sodium.sodium_mprotect_readonly(buffer);
+    try {
+      return buffer.toString('utf8');
+    } finally {
+      sodium.sodium_mprotect_noaccess(buffer);
+    }
+  }
+
+  /**
+   * Report missing required credentials for each configured account.
+   */
+  validate(): void {
+    for (const account of config.ACCOUNTS) {
+      const missingRequired = REQUIRED_CREDENTIALS.filter((name) => !this.has(account, name));
+      if (missingRequired.length > 0) {
+        logger.error(
+          `Missing required variables for account "${account}": ${missingRequired
+            .map((name) => accountEnvName(account, name))
+            .join(', ')}. Some functionality may not work.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Zero an account's credentials. Called after login unless RETAIN_CREDENTIALS is set.
+   */
+  wipe(account: string): void {
+    for (const name of CREDENTIAL_NAMES) {
+      const key = accountEnvName(account, name);
+      const buffer = this.secrets.get(key);
+      if (buffer) {
+        sodium.sodium_mprotect_readwrite(buffer);
+        sodium.sodium_memzero(buffer);
+        this.secrets.delete(key);
+      }
+    }
+
+    this.wipedAccounts.add(account);
+    logger.info(`Credentials for account "${account}" wiped from memory.`);
+  }
+
+  /**
+   * Load credentials from the vault file and environment, then scrub the environment.
+   */
+  private load(): void {
+    const names = config.ACCOUNTS.flatMap((account) =>
+      CREDENTIAL_NAMES.map((name) => accountEnvName(account, name)),
+    );
+
+    const vaultPassphrase = process.env.VAULT_PASSPHRASE;
+    delete process.env.VAULT_PASSPHRASE;
+
+    if (existsSync(config.VAULT_FILE)) {
+      if (vaultPassphrase) {
+        try {
+          const passphrase = Buffer.from(vaultPassphrase, 'utf8');
+          const stored = readVaultFile(config.VAULT_FILE, passphrase);
+          sodium.sodium_memzero(passphrase);
+
+          for (const name of names) {
+            if (stored[name]) {
+              this.store(name, stored[name]);
+            }
+          }
+          logger.info(`Loaded credentials from vault file ${config.VAULT_FILE}`);
+        } catch (error) {
+          logger.error(
+            `Failed to open vault file: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else {
+        logger.warn(`Vault file ${config.VAULT_FILE} exists but VAULT_PASSPHRASE is not set`);
+      }
+    }
+
+    for (const name of names) {
+      const value = process.env[name];
+      delete process.env[name];
+
+      if (value) {
+        this.store(name, value);
+      }
+    }
+  }
+
+  /**
+   * Copy a credential into a new secure buffer, replacing any previous value.
+   */
+  private store(name: string, value: string): void {
+    const previous = this.secrets.get(name);
+    if (previous) {
+      sodium.sodium_mprotect_readwrite(previous);
+      sodium.sodium_memzero(previous);
+    }
+
+    const buffer = sodium.sodium_malloc(Buffer.byteLength(value, 'utf8'));
+    buffer.write(value, 'utf8');
+    sodium.sodium_mprotect_noaccess(buffer);
+    this.secrets.set(name, buffer);
+  }
+}
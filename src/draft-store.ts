@@ -0,0 +1,394 @@
+import { randomUUID } from 'crypto';
+
+import { logger } from './config.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import { type MediaInput, MediaRegistry, type MediaSummary } from './media-registry.js';
+import { isClaimAbandoned, JsonFileStore, PROCESS_OWNER } from './storage.js';
+
+/**
+ * Maximum number of earlier versions kept per draft
+ */
+const MAX_DRAFT_VERSIONS = 50;
+
+/**
+ * What a draft will post
+ */
+export interface DraftContent {
+  text: string;
+  media?: MediaInput[];
+  inReplyToId?: string;
+  /**
+   * ID or URL of a tweet to quote
+   */
+  quotedTweet?: string;
+}
+
+/**
+ * Changes to a draft. Empty strings clear the reply and quote targets, an empty array
+ * clears the media.
+ */
+export type DraftChanges = Partial<DraftContent>;
+
+/**
+ * One saved version of a draft
+ */
+export interface DraftVersion extends DraftContent {
+  version: number;
+  savedAt: string;
+}
+
+/**
+ * A tweet being written, with the earlier versions of its content
+ */
+export interface Draft extends DraftContent {
+  id: string;
+  account: string;
+  version: number;
+  /**
+   * 'draft', 'publishing' (claimed by a publishDraft call that is posting it) or 'published'
+   */
+  status: 'draft' | 'publishing' | 'published';
+  createdAt: string;
+  updatedAt: string;
+  publishedTweetId?: string;
+  publishedTweetUrl?: string;
+  /**
+   * Why the last attempt to publish the draft failed, or why its tweet is unknown
+   */
+  error?: string;
+  /**
+   * The process publishing the draft, as `<host>:<pid>`, while it is publishing
+   */
+  claimedBy?: string;
+  /**
+   * Earlier versions, oldest first
+   */
+  history: DraftVersion[];
+}
+
+/**
+ * A draft as shown to clients: media is reported by ID, type and size, not its data
+ */
+export type DraftSummary = Omit<Draft, 'media' | 'history'> & {
+  media?: MediaSummary[];
+  history?: Array<Omit<DraftVersion, 'media'> & { media?: MediaSummary[] }>;
+};
+
+/**
+ * DraftStore keeps tweets that are still being written in the local data directory,
+ * with a history of their earlier versions. Drafts are published through the same
+ * validation and send path as sendTweet.
+ */
+export class DraftStore {
+  private static instance: DraftStore;
+  private readonly store = new JsonFileStore<Draft[]>('drafts.json', () => []);
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of DraftStore.
+   */
+  public static getInstance(): DraftStore {
+    if (!DraftStore.instance) {
+      DraftStore.instance = new DraftStore();
+    }
+    return DraftStore.instance;
+  }
+
+  /**
+   * Create a draft for an account.
+   */
+  create(account: string, content: DraftContent): DraftSummary {
+    const now = new Date().toISOString();
+    const draft: Draft = {
+      id: randomUUID(),
+      account,
+      ...this.validateContent(content),
+      version: 1,
+      status: 'draft',
+      createdAt: now,
+      updatedAt: now,
+      history: [],
+    };
+
+    // Keep stored media for as long as the draft refers to it
+    this.pinMedia(draft);
+    this.store.update((drafts) => drafts.push(draft));
+    logger.info(`Created draft ${draft.id}`);
+
+    return this.summarize(draft, false);
+  }
+
+  /**
+   * Save a new version of a draft, either by applying changes to the current version or by
+   * restoring an earlier one. The current version is kept in the history.
+   */
+  update(id: string, changes: DraftChanges, restoreVersion?: number): DraftSummary {
+    return this.store.update((drafts) => {
+      const draft = this.findDraft(drafts, id);
+      if (draft.status !== 'draft') {
+        throw new ValidationError(`Draft ${id} is already ${draft.status}`);
+      }
+
+      let base: DraftContent = this.contentOf(draft);
+      if (restoreVersion !== undefined) {
+        const restored = draft.history.find((entry) => entry.version === restoreVersion);
+        if (!restored) {
+          throw new NotFoundError(`Draft ${id} has no version ${restoreVersion}`);
+        }
+        base = this.contentOf(restored);
+      }
+
+      this.saveVersion(draft, this.validateContent({ ...base, ...changes }));
+      return this.summarize(draft, false);
+    });
+  }
+
+  /**
+   * List drafts, optionally filtered by account and status, most recently updated first.
+   * The version history is left out.
+   */
+  list(account?: string, status?: Draft['status']): DraftSummary[] {
+    return this.store
+      .read()
+      .filter(
+        (draft) => (!account || draft.account === account) && (!status || draft.status === status),
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((draft) => this.summarize(draft, false));
+  }
+
+  /**
+   * Get a draft with its version history.
+   */
+  get(id: string): DraftSummary {
+    return this.summarize(this.findDraft(this.store.read(), id), true);
+  }
+
+  /**
+   * Get a draft that can still be published, including its media data.
+   */
+  getForPublishing(id: string): Draft {
+    const draft = this.findDraft(this.store.read(), id);
+    if (draft.status !== 'draft') {
+      throw new ValidationError(`Draft ${id} is already ${draft.status}`);
+    }
+    return draft;
+  }
+
+  /**
+   * Mark a draft as publishing and return it, so that concurrent calls cannot post it twice.
+   *
+   * @param content Content to post instead of the current version, e.g. the content an
+   *   approved action was queued with. It is saved as a new version if it differs.
+   */
+  claimForPublishing(id: string, content?: DraftContent): Draft {
+    return this.store.update((drafts) => {
+      const draft = this.findDraft(drafts, id);
+      if (draft.status !== 'draft') {
+        throw new ValidationError(`Draft ${id} is already ${draft.status}`);
+      }
+
+      if (content) {
+        const validated = this.validateContent(content);
+        if (JSON.stringify(validated) !== JSON.stringify(this.validateContent(draft))) {
+          this.saveVersion(draft, validated);
+        }
+      }
+
+      draft.status = 'publishing';
+      draft.claimedBy = PROCESS_OWNER;
+      draft.updatedAt = new Date().toISOString();
+      return { ...draft };
+    });
+  }
+
+  /**
+   * Return a claimed draft to the draft status after publishing it failed.
+   */
+  releaseClaim(id: string, error: string): void {
+    this.store.update((drafts) => {
+      const draft = this.findDraft(drafts, id);
+      if (draft.status === 'publishing') {
+        draft.status = 'draft';
+        draft.error = error;
+        delete draft.claimedBy;
+        draft.updatedAt = new Date().toISOString();
+      }
+    });
+  }
+
+  /**
+   * Record that a draft was posted. Without the posted tweet, the draft is published but
+   * the ID of its tweet is unknown.
+   */
+  markPublished(id: string, posted?: { id: string; url: string }): DraftSummary {
+    return this.store.update((drafts) => {
+      const draft = this.findDraft(drafts, id);
+      draft.status = 'published';
+      delete draft.claimedBy;
+      if (posted) {
+        draft.publishedTweetId = posted.id;
+        draft.publishedTweetUrl = posted.url;
+        delete draft.error;
+      } else {
+        draft.error = 'The tweet was posted, but it could not be found to record its ID.';
+      }
+      draft.updatedAt = new Date().toISOString();
+
+      MediaRegistry.getInstance().unpin(this.mediaOwner(id));
+      return this.summarize(draft, false);
+    });
+  }
+
+  /**
+   * Delete a draft and its history.
+   */
+  delete(id: string): void {
+    this.store.update((drafts) => {
+      const draft = this.findDraft(drafts, id);
+      if (draft.status === 'publishing') {
+        throw new ValidationError(`Draft ${id} is being published`);
+      }
+      drafts.splice(drafts.indexOf(draft), 1);
+    });
+    MediaRegistry.getInstance().unpin(this.mediaOwner(id));
+    logger.info(`Deleted draft ${id}`);
+  }
+
+  /**
+   * Return drafts left in the publishing state by a process that stopped mid-publish to the
+   * draft status, noting that their tweet may have been posted. Drafts that another running
+   * process is publishing are left alone.
+   */
+  recoverInterrupted(): void {
+    try {
+      this.store.update((drafts) => {
+        const interrupted = drafts.filter(
+          (candidate) =>
+            candidate.status === 'publishing' && isClaimAbandoned(candidate.claimedBy),
+        );
+
+        for (const draft of interrupted) {
+          draft.status = 'draft';
+          draft.error =
+            'The server stopped while publishing this draft. Check whether it was posted before publishing it again.';
+          delete draft.claimedBy;
+          draft.updatedAt = new Date().toISOString();
+          logger.warn(`Draft ${draft.id} was interrupted while publishing`);
+        }
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to read the drafts: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Replace a draft's content with a new version, keeping the current one in the history.
+   */
+  private saveVersion(draft: Draft, content: DraftContent): void {
+    draft.history.push({
+      ...this.contentOf(draft),
+      version: draft.version,
+      savedAt: draft.updatedAt,
+    });
+    draft.history.splice(0, draft.history.length - MAX_DRAFT_VERSIONS);
+
+    // Replace the content fields, dropping the ones that were cleared
+    delete draft.media;
+    delete draft.inReplyToId;
+    delete draft.quotedTweet;
+    delete draft.error;
+    Object.assign(draft, content, {
+      version: draft.version + 1,
+      updatedAt: new Date().toISOString(),
+    });
+
+    logger.info(`Saved version ${draft.version} of draft ${draft.id}`);
+    this.pinMedia(draft);
+  }
+
+  /**
+   * Find a draft by ID.
+   */
+  private findDraft(drafts: Draft[], id: string): Draft {
+    const draft = drafts.find((item) => item.id === id);
+    if (!draft) {
+      throw new NotFoundError(`Draft not found: ${id}`);
+    }
+    return draft;
+  }
+
+  /**
+   * Pin the stored media of a draft's current and earlier versions, which can be restored.
+   */
+  private pinMedia(draft: Draft): void {
+    const media = [draft, ...draft.history].flatMap((version) => version.media ?? []);
+    MediaRegistry.getInstance().pin(this.mediaOwner(draft.id), media);
+  }
+
+  /**
+   * Owner name under which a draft pins its stored media.
+   */
+  private mediaOwner(id: string): string {
+    return `draft:${id}`;
+  }
+
+  /**
+   * Check the shape of a draft's content and drop cleared fields.
+   * The tweet itself is only validated when the draft is published, so that drafts may be
+   * over length while they are being edited.
+   */
+  private validateContent(content: DraftContent): DraftContent {
+    if (typeof content.text !== 'string') {
+      throw new ValidationError("Parameter 'text' must be a string");
+    }
+
+    if (content.media !== undefined && !Array.isArray(content.media)) {
+      throw new ValidationError("Parameter 'media' must be an array");
+    }
+
+    if (content.inReplyToId && content.quotedTweet) {
+      throw new ValidationError('A draft can reply to a tweet or quote one, but not both');
+    }
+
+    return {
+      text: content.text,
+      ...(content.media?.length && { media: content.media }),
+      ...(content.inReplyToId && { inReplyToId: content.inReplyToId }),
+      ...(content.quotedTweet && { quotedTweet: content.quotedTweet }),
+    };
+  }
+
+  /**
+   * Get the content fields of a draft or version.
+   */
+  private contentOf(source: DraftContent): DraftContent {
+    const { text, media, inReplyToId, quotedTweet } = source;
+    return { text, media, inReplyToId, quotedTweet };
+  }
+
+  /**
+   * Replace a draft's media data with its ID, type and size, optionally including its history.
+   */
+  private summarize(draft: Draft, includeHistory: boolean): DraftSummary {
+    const summarizeMedia = (media?: MediaInput[]): MediaSummary[] | undefined =>
+      media && MediaRegistry.getInstance().describe(media);
+
+    const { media, history, ...rest } = draft;
+    return {
+      ...rest,
+      media: summarizeMedia(media),
+      ...(includeHistory && {
+        history: history.map((entry) => ({ ...entry, media: summarizeMedia(entry.media) })),
+      }),
+    };
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Machine-readable error codes reported in tool results
+ */
+export type TwitterErrorCode =
+  | 'AUTH_EXPIRED'
+  | 'RATE_LIMITED'
+  | 'NOT_FOUND'
+  | 'UNAVAILABLE'
+  | 'VALIDATION'
+  | 'UPSTREAM';
+
+/**
+ * Error payload returned to MCP clients when a tool call fails
+ */
+export interface ToolErrorPayload {
+  error: string;
+  code: TwitterErrorCode;
+  retryable: boolean;
+  resetAt?: string;
+  reason?: UnavailableReason;
+}
+
+/**
+ * Why a resource exists but cannot be accessed
+ */
+export type UnavailableReason = 'suspended' | 'protected';
+
+interface TwitterErrorOptions {
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors surfaced by the Twitter integration.
+ * `retryable` tells callers whether repeating the same call may succeed.
+ */
+export abstract class TwitterError extends Error {
+  abstract readonly code: TwitterErrorCode;
+  readonly retryable: boolean;
+
+  constructor(message: string, defaultRetryable: boolean, options: TwitterErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.retryable = options.retryable ?? defaultRetryable;
+  }
+
+  toPayload(): ToolErrorPayload {
+    return { error: this.message, code: this.code, retryable: this.retryable };
+  }
+}
+
+/**
+ * The session is not (or no longer) logged in, or logging in failed.
+ */
+export class AuthExpiredError extends TwitterError {
+  readonly code = 'AUTH_EXPIRED';
+
+  constructor(message: string, options?: TwitterErrorOptions) {
+    super(message, true, options);
+  }
+}
+
+/**
+ * Twitter rejected the request because a rate limit was hit.
+ */
+export class RateLimitError extends TwitterError {
+  readonly code = 'RATE_LIMITED';
+
+  constructor(
+    message: string,
+    readonly resetAt?: Date,
+    options?: TwitterErrorOptions,
+  ) {
+    super(message, true, options);
+  }
+
+  toPayload(): ToolErrorPayload {
+    return { ...super.toPayload(), resetAt: this.resetAt?.toISOString() };
+  }
+}
+
+/**
+ * The requested tweet, user, list or other resource does not exist.
+ */
+export class NotFoundError extends TwitterError {
+  readonly code = 'NOT_FOUND';
+
+  constructor(message: string, options?: TwitterErrorOptions) {
+    super(message, false, options);
+  }
+}
+
+/**
+ * The resource exists but cannot be accessed, because the account is suspended or protected.
+ */
+export class UnavailableError extends TwitterError {
+  readonly code = 'UNAVAILABLE';
+
+  constructor(
+    message: string,
+    readonly reason: UnavailableReason,
+    options?: TwitterErrorOptions,
+  ) {
+    super(message, false, options);
+  }
+
+  toPayload(): ToolErrorPayload {
+    return { ...super.toPayload(), reason: this.reason };
+  }
+}
+
+/**
+ * The request was invalid and was not (or would not be) accepted.
+ */
+export class ValidationError extends TwitterError {
+  readonly code = 'VALIDATION';
+
+  constructor(message: string, options?: TwitterErrorOptions) {
+    super(message, false, options);
+  }
+}
+
+/**
+ * Twitter or the network failed in a way not covered by a more specific error.
+ * Network errors and server errors are retryable, unexpected responses are not.
+ */
+export class UpstreamError extends TwitterError {
+  readonly code = 'UPSTREAM';
+
+  constructor(message: string, options?: TwitterErrorOptions) {
+    super(message, false, options);
+  }
+}
+
+// Twitter API error codes (https://developer.x.com/en/support/x-api/error-troubleshooting)
+const AUTH_ERROR_CODES = [32, 89, 215, 326];
+const RATE_LIMIT_ERROR_CODES = [88, 185];
+const NOT_FOUND_ERROR_CODES = [8, 17, 34, 50, 144, 421];
+const SUSPENDED_ERROR_CODES = [63, 64];
+const PROTECTED_ERROR_CODES = [179];
+const VALIDATION_ERROR_CODES = [44, 120, 186, 187, 214, 324, 385];
+
+/**
+ * Get the HTTP response attached to errors thrown by agent-twitter-client's API requests.
+ */
+function getResponse(error: unknown): Response | undefined {
+  const response = (error as { response?: unknown } | null)?.response;
+  return response instanceof Response ? response : undefined;
+}
+
+/**
+ * Find the first Twitter API error code in an error message or response body.
+ */
+function getTwitterErrorCode(error: unknown, message: string): number | undefined {
+  const data = (error as { data?: { errors?: Array<{ code?: number }> } } | null)?.data;
+  const code = data?.errors?.[0]?.code ?? /"code"\s*:\s*(\d+)/.exec(message)?.[1];
+  return code === undefined ? undefined : Number(code);
+}
+
+/**
+ * Get the Twitter API error code behind a classified error, if Twitter sent one.
+ */
+export function getErrorCode(error: TwitterError): number | undefined {
+  const source = error.cause ?? error;
+  return getTwitterErrorCode(source, source instanceof Error ? source.message : String(source));
+}
+
+/**
+ * Read the rate limit reset time from a response, if Twitter sent one.
+ */
+function getResetAt(response?: Response): Date | undefined {
+  const reset = Number(response?.headers.get('x-rate-limit-reset'));
+  return reset > 0 ? new Date(reset * 1000) : undefined;
+}
+
+/**
+ * Check whether an error was caused by the network rather than by Twitter's response.
+ */
+function isNetworkError(error: unknown, message: string): boolean {
+  const cause = (error as { cause?: { code?: string } } | null)?.cause;
+  return (
+    (error instanceof TypeError && message === 'fetch failed') ||
+    message === 'Failed to perform request.' ||
+    /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up/.test(message) ||
+    /^(ECONN|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|UND_ERR)/.test(cause?.code ?? '')
+  );
+}
+
+/**
+ * Map any error thrown while talking to Twitter onto the typed error hierarchy.
+ * agent-twitter-client mostly throws plain errors, so classification relies on the
+ * HTTP status and Twitter error codes where available and on the message otherwise.
+ *
+ * @param fallback Error class for failures that match no known category
+ */
+export function classifyError(
+  error: unknown,
+  fallback: new (message: string, options?: TwitterErrorOptions) => TwitterError = UpstreamError,
+): TwitterError {
+  if (error instanceof TwitterError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const response = getResponse(error);
+  const status = response?.status;
+  const twitterCode = getTwitterErrorCode(error, message);
+  const options = { cause: error };
+
+  if (
+    status === 429 ||
+    (twitterCode !== undefined && RATE_LIMIT_ERROR_CODES.includes(twitterCode)) ||
+    /rate limit/i.test(message)
+  ) {
+    return new RateLimitError(message, getResetAt(response), options);
+  }
+
+  if (
+    status === 401 ||
+    (twitterCode !== undefined && AUTH_ERROR_CODES.includes(twitterCode)) ||
+    /not logged-in|must be logged in|authentication required|could not authenticate/i.test(message)
+  ) {
+    return new AuthExpiredError(message, options);
+  }
+
+  if (
+    (twitterCode !== undefined && SUSPENDED_ERROR_CODES.includes(twitterCode)) ||
+    /suspended/i.test(message)
+  ) {
+    return new UnavailableError(message, 'suspended', options);
+  }
+
+  if (
+    (twitterCode !== undefined && PROTECTED_ERROR_CODES.includes(twitterCode)) ||
+    /protected|is private|not authorized to see/i.test(message)
+  ) {
+    return new UnavailableError(message, 'protected', options);
+  }
+
+  if (
+    status === 404 ||
+    (twitterCode !== undefined && NOT_FOUND_ERROR_CODES.includes(twitterCode)) ||
+    /not found|does not exist|no status found/i.test(message)
+  ) {
+    return new NotFoundError(message, options);
+  }
+
+  if (twitterCode !== undefined && VALIDATION_ERROR_CODES.includes(twitterCode)) {
+    return new ValidationError(message, options);
+  }
+
+  if (isNetworkError(error, message) || (status !== undefined && status >= 500)) {
+    return new UpstreamError(message, { ...options, retryable: true });
+  }
+
+  return new fallback(message, options);
+}
@@ -0,0 +1,300 @@
+import type { Profile, Tweet } from 'agent-twitter-client';
+
+import { config, type OutputFormat } from './config.js';
+import { ValidationError } from './errors.js';
+import type { Page } from './pagination.js';
+import type { ConversationThread, ThreadNode } from './thread.js';
+
+/**
+ * How tweets and profiles are rendered in tool results
+ */
+export interface FormatOptions {
+  format: OutputFormat;
+  /**
+   * Only include these fields (dot-separated paths, e.g. "author.username")
+   */
+  fields?: string[];
+}
+
+/**
+ * Minimal, stable representation of a tweet. Missing values are null, never omitted.
+ */
+export interface CompactTweet {
+  id: string | null;
+  author: { id: string | null; username: string | null; name: string | null };
+  text: string;
+  time: string | null;
+  counts: {
+    likes: number | null;
+    retweets: number | null;
+    replies: number | null;
+    views: number | null;
+  };
+  urls: { tweet: string | null; links: string[]; media: string[] };
+}
+
+/**
+ * Minimal, stable representation of a profile. Missing values are null, never omitted.
+ */
+export interface CompactProfile {
+  id: string | null;
+  username: string | null;
+  name: string | null;
+  bio: string;
+  joined: string | null;
+  counts: {
+    followers: number | null;
+    following: number | null;
+    tweets: number | null;
+    likes: number | null;
+  };
+  urls: { profile: string | null; website: string | null; avatar: string | null };
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ['full', 'compact', 'markdown'];
+
+/**
+ * Read the format and fields arguments of a tool call, falling back to OUTPUT_FORMAT.
+ */
+export function parseFormatOptions(args: Record<string, unknown>): FormatOptions {
+  const format = (args.format ?? config.OUTPUT_FORMAT) as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new ValidationError(
+      `Unsupported format: ${String(format)}. Supported formats are: ${OUTPUT_FORMATS.join(', ')}`,
+    );
+  }
+
+  const fields = args.fields;
+  if (fields === undefined) {
+    return { format };
+  }
+
+  if (!Array.isArray(fields) || fields.some((field) => typeof field !== 'string' || !field)) {
+    throw new ValidationError("Parameter 'fields' must be an array of field names");
+  }
+
+  if (format === 'markdown') {
+    throw new ValidationError("Parameter 'fields' cannot be combined with the markdown format");
+  }
+
+  return { format, fields };
+}
+
+/**
+ * Convert a tweet to its compact representation.
+ */
+export function compactTweet(tweet: Tweet): CompactTweet {
+  const time = tweet.timeParsed ?? (tweet.timestamp ? new Date(tweet.timestamp * 1000) : null);
+
+  return {
+    id: tweet.id ?? null,
+    author: {
+      id: tweet.userId ?? null,
+      username: tweet.username ?? null,
+      name: tweet.name ?? null,
+    },
+    text: tweet.text ?? '',
+    time: time ? new Date(time).toISOString() : null,
+    counts: {
+      likes: tweet.likes ?? null,
+      retweets: tweet.retweets ?? null,
+      replies: tweet.replies ?? null,
+      views: tweet.views ?? null,
+    },
+    urls: {
+      tweet: tweet.permanentUrl ?? null,
+      links: tweet.urls ?? [],
+      media: [
+        ...(tweet.photos ?? []).map((photo) => photo.url),
+        ...(tweet.videos ?? []).flatMap((video) => (video.url ? [video.url] : [])),
+      ],
+    },
+  };
+}
+
+/**
+ * Convert a profile to its compact representation.
+ */
+export function compactProfile(profile: Profile): CompactProfile {
+  return {
+    id: profile.userId ?? null,
+    username: profile.username ?? null,
+    name: profile.name ?? null,
+    bio: profile.biography ?? '',
+    joined: profile.joined ? new Date(profile.joined).toISOString() : null,
+    counts: {
+      followers: profile.followersCount ?? null,
+      following: profile.followingCount ?? null,
+      tweets: profile.tweetsCount ?? profile.statusesCount ?? null,
+      likes: profile.likesCount ?? null,
+    },
+    urls: {
+      profile: profile.url ?? null,
+      website: profile.website ?? null,
+      avatar: profile.avatar ?? null,
+    },
+  };
+}
+
+/**
+ * Render a compact tweet as a short Markdown block.
+ */
+function tweetToMarkdown(tweet: CompactTweet): string {
+  const author = tweet.author.name
+    ? `**${tweet.author.name}** (@${tweet.author.username})`
+    : `**@${tweet.author.username}**`;
+  const counts = `${tweet.counts.likes ?? 0} likes · ${tweet.counts.retweets ?? 0} retweets · ${tweet.counts.replies ?? 0} replies`;
+
+  return [
+    `${author}${tweet.time ? ` · ${tweet.time}` : ''}`,
+    '',
+    tweet.text,
+    ...tweet.urls.media.map((url) => `![media](${url})`),
+    '',
+    tweet.urls.tweet ? `${counts} · ${tweet.urls.tweet}` : counts,
+  ].join('\n');
+}
+
+/**
+ * Render a compact profile as a short Markdown block.
+ */
+function profileToMarkdown(profile: CompactProfile): string {
+  const counts = `${profile.counts.followers ?? 0} followers · ${profile.counts.following ?? 0} following · ${profile.counts.tweets ?? 0} tweets`;
+
+  return [
+    `**${profile.name ?? profile.username}** (@${profile.username})`,
+    ...(profile.bio ? ['', profile.bio] : []),
+    '',
+    profile.urls.profile ? `${counts} · ${profile.urls.profile}` : counts,
+  ].join('\n');
+}
+
+/**
+ * Copy only the requested fields of an object. Dot-separated paths select nested fields,
+ * and fields that do not exist are left out.
+ */
+function pickFields(value: object, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const path = field.split('.');
+    let source: unknown = value;
+    for (const segment of path) {
+      source =
+        source && typeof source === 'object'
+          ? (source as Record<string, unknown>)[segment]
+          : undefined;
+    }
+
+    if (source === undefined) {
+      continue;
+    }
+
+    let target = picked;
+    for (const segment of path.slice(0, -1)) {
+      target[segment] ??= {};
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = source;
+  }
+
+  return picked;
+}
+
+/**
+ * Apply the compact shape and field projection of the requested format to one item.
+ */
+function shapeItem<T extends object>(
+  item: T,
+  options: FormatOptions,
+  compact: (item: T) => object,
+): object {
+  const shaped = options.format === 'compact' ? compact(item) : item;
+  return options.fields ? pickFields(shaped, options.fields) : shaped;
+}
+
+/**
+ * Render one or more tweets or profiles in the requested format.
+ * A page is rendered as its results followed by the cursor for the next page.
+ */
+function formatItems<T extends object, C extends object>(
+  data: T | T[] | Page<T>,
+  options: FormatOptions,
+  compact: (item: T) => C,
+  toMarkdown: (item: C) => string,
+): string {
+  const page = 'items' in data && 'nextCursor' in data ? data : null;
+  const items = page ? page.items : Array.isArray(data) ? data : [data as T];
+
+  if (options.format === 'markdown') {
+    const markdown =
+      items.length > 0
+        ? items.map((item) => toMarkdown(compact(item))).join('\n\n---\n\n')
+        : '_No results_';
+    return page?.nextCursor ? `${markdown}\n\nNext cursor: \`${page.nextCursor}\`` : markdown;
+  }
+
+  const formatted = items.map((item) => shapeItem(item, options, compact));
+
+  if (page) {
+    return JSON.stringify({ results: formatted, nextCursor: page.nextCursor });
+  }
+  return JSON.stringify(Array.isArray(data) ? formatted : formatted[0]);
+}
+
+/**
+ * Render tweets in the requested format: the raw tweet objects, the compact shape or Markdown.
+ */
+export function formatTweets(
+  tweets: Tweet | Tweet[] | Page<Tweet>,
+  options: FormatOptions,
+): string {
+  return formatItems(tweets, options, compactTweet, tweetToMarkdown);
+}
+
+/**
+ * Render profiles in the requested format: the raw profile objects, the compact shape or Markdown.
+ */
+export function formatProfiles(
+  profiles: Profile | Profile[] | Page<Profile>,
+  options: FormatOptions,
+): string {
+  return formatItems(profiles, options, compactProfile, profileToMarkdown);
+}
+
+/**
+ * Render a conversation thread. Every tweet in the tree is rendered in the requested format;
+ * in Markdown, replies are nested as block quotes.
+ */
+export function formatThread(thread: ConversationThread, options: FormatOptions): string {
+  if (options.format === 'markdown') {
+    const blocks = [
+      `Conversation ${thread.conversationId ?? thread.focalTweetId} · ${thread.ancestorCount} earlier tweets · ${thread.replyCount} replies${thread.truncated ? ' (truncated)' : ''}`,
+    ];
+
+    const render = (node: ThreadNode): void => {
+      const quote = '>'.repeat(node.depth);
+      const markdown = tweetToMarkdown(compactTweet(node.tweet));
+      blocks.push(
+        quote
+          ? markdown
+              .split('\n')
+              .map((line) => `${quote} ${line}`.trimEnd())
+              .join('\n')
+          : markdown,
+      );
+      node.replies.forEach(render);
+    };
+    render(thread.root);
+
+    return blocks.join('\n\n');
+  }
+
+  const shapeNode = (node: ThreadNode): ThreadNode<object> => ({
+    ...node,
+    tweet: shapeItem(node.tweet, options, compactTweet),
+    replies: node.replies.map(shapeNode),
+  });
+
+  return JSON.stringify({ ...thread, root: shapeNode(thread.root) });
+}
@@ -0,0 +1,347 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+
+import { logger } from './config.js';
+
+/**
+ * HTTP transport options
+ */
+export interface HttpServerOptions {
+  /**
+   * Interface to listen on
+   */
+  host: string;
+
+  /**
+   * Port to listen on
+   */
+  port: number;
+
+  /**
+   * Static bearer token that clients must send in the Authorization header
+   */
+  authToken?: string;
+
+  /**
+   * Host names that requests may be addressed to, besides the loopback names and `host`.
+   * Only checked without `authToken`.
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Origins that browsers may send requests from, besides the loopback origins
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Close Streamable HTTP sessions that received no request for this long, 0 to keep them
+   */
+  sessionIdleMs?: number;
+}
+
+// Request bodies can carry base64 media, so allow generously sized payloads
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Host names that always refer to this machine
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * A request body larger than MAX_BODY_BYTES
+ */
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Check the request's bearer token in constant time.
+ */
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  // Hash both sides so timingSafeEqual always compares equal-length buffers
+  const expected = createHash('sha256').update(authToken).digest();
+  const actual = createHash('sha256').update(match[1].trim()).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Check that a request is addressed to this server and, when it comes from a browser, sent
+ * from an allowed origin. This keeps web pages from reaching the server through DNS
+ * rebinding: their requests carry the page's own host name and origin.
+ *
+ * @param checkHost Whether to check the Host header. Not needed when a token is required,
+ *   which web pages do not have.
+ */
+function isAllowedOrigin(
+  req: IncomingMessage,
+  options: HttpServerOptions,
+  checkHost: boolean,
+): boolean {
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    const hostname = URL.canParse(origin) ? new URL(origin).hostname : '';
+    if (!options.allowedOrigins?.includes(origin) && !LOOPBACK_HOSTS.includes(hostname)) {
+      return false;
+    }
+  }
+
+  if (!checkHost) {
+    return true;
+  }
+
+  // Host headers put IPv6 addresses in brackets, followed by an optional port
+  const host = (req.headers.host ?? '').replace(/:\d+$/, '').toLowerCase();
+  const configured = options.host.includes(':') ? `[${options.host}]` : options.host;
+  return [...LOOPBACK_HOSTS, configured, ...(options.allowedHosts ?? [])].includes(host);
+}
+
+/**
+ * Read and parse a JSON request body. A body over MAX_BODY_BYTES is discarded, so that the
+ * error can still be answered.
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData).off('end', onEnd).resume();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    req.on('data', onData).on('end', onEnd).once('error', reject);
+  });
+}
+
+/**
+ * Write a JSON-RPC error response outside of any session.
+ *
+ * @param code JSON-RPC error code, by default the generic server error
+ */
+function sendError(res: ServerResponse, status: number, message: string, code = -32000): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }),
+  );
+}
+
+/**
+ * Start an HTTP server exposing the MCP server over Streamable HTTP (`/mcp`)
+ * and the legacy SSE transport (`/sse` + `/messages`).
+ *
+ * Every client session gets its own MCP server from `createMcpServer`, while all
+ * sessions share the process-wide Twitter login.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions,
+): Promise<Server> {
+  const sessions = new Map<string, StreamableHTTPServerTransport | SSEServerTransport>();
+  // When each Streamable HTTP session last received a request
+  const lastActivity = new Map<string, number>();
+
+  // Connect a new MCP server to a transport and forget the session once it closes
+  const connectSession = async (
+    transport: StreamableHTTPServerTransport | SSEServerTransport,
+    getSessionId: () => string | undefined,
+  ) => {
+    const mcpServer = createMcpServer();
+    await mcpServer.connect(transport);
+    mcpServer.server.onclose = () => {
+      const sessionId = getSessionId();
+      if (sessionId && sessions.delete(sessionId)) {
+        lastActivity.delete(sessionId);
+        logger.info(`HTTP session closed: ${sessionId}`);
+      }
+    };
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const transport = sessions.get(sessionId);
+      if (!(transport instanceof StreamableHTTPServerTransport)) {
+        sendError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+
+      lastActivity.set(sessionId, Date.now());
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendError(res, 400, 'Missing mcp-session-id header');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        res.setHeader('Connection', 'close');
+        sendError(res, 413, error.message);
+        return;
+      }
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      sendError(res, 400, `Parse error: ${error.message}`, -32700);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, 'A new session must start with an initialize request');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, transport);
+        lastActivity.set(newSessionId, Date.now());
+        logger.info(`HTTP session started: ${newSessionId}`);
+      },
+    });
+
+    await connectSession(transport, () => transport.sessionId);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseRequest = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, transport);
+    logger.info(`SSE session started: ${transport.sessionId}`);
+
+    res.on('close', () => {
+      transport.close();
+    });
+
+    await connectSession(transport, () => transport.sessionId);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const transport = sessions.get(sessionId);
+
+    if (!(transport instanceof SSEServerTransport)) {
+      sendError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    await transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      if (!isAuthorized(req, options.authToken)) {
+        logger.warn(`Rejected unauthorized HTTP request from ${req.socket.remoteAddress}`);
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      if (!isAllowedOrigin(req, options, !options.authToken)) {
+        logger.warn(
+          `Rejected HTTP request for host ${req.headers.host} from origin ${req.headers.origin}`,
+        );
+        sendError(res, 403, 'Forbidden: host or origin not allowed');
+        return;
+      }
+
+      const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseRequest(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendError(res, 404, 'Not found');
+      }
+    } catch (error) {
+      logger.error(
+        `Error handling HTTP request: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  // Close Streamable HTTP sessions that clients abandoned without closing them
+  const idleMs = options.sessionIdleMs ?? 0;
+  const idleTimer =
+    idleMs > 0
+      ? setInterval(
+          () => {
+            const idleSince = Date.now() - idleMs;
+            for (const [sessionId, time] of lastActivity) {
+              if (time < idleSince) {
+                logger.info(`Closing idle HTTP session: ${sessionId}`);
+                lastActivity.delete(sessionId);
+                void sessions.get(sessionId)?.close();
+              }
+            }
+          },
+          Math.min(idleMs, 60 * 1000),
+        )
+      : null;
+  idleTimer?.unref();
+
+  // Close all sessions along with the HTTP server
+  httpServer.on('close', () => {
+    if (idleTimer) {
+      clearInterval(idleTimer);
+    }
+    for (const transport of sessions.values()) {
+      transport.close();
+    }
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
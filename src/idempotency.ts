@@ -0,0 +1,85 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { logger } from './config.js';
+import { ValidationError } from './errors.js';
+import { JsonFileStore } from './storage.js';
+
+/**
+ * How long the result of a keyed write call is remembered
+ */
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Result of a successful write call, stored under its idempotency key
+ */
+interface IdempotentResult {
+  tool: string;
+  account: string;
+  result: CallToolResult;
+  createdAt: string;
+}
+
+/**
+ * IdempotencyStore remembers the results of write calls made with an idempotency key,
+ * so that a client repeating a call (e.g. after a timeout) gets the original result
+ * instead of posting twice. Keys are kept in the data directory for 24 hours.
+ */
+export class IdempotencyStore {
+  private static instance: IdempotencyStore;
+  private readonly store = new JsonFileStore<Record<string, IdempotentResult>>(
+    'idempotency-keys.json',
+    () => ({}),
+  );
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of IdempotencyStore.
+   */
+  public static getInstance(): IdempotencyStore {
+    if (!IdempotencyStore.instance) {
+      IdempotencyStore.instance = new IdempotencyStore();
+    }
+    return IdempotencyStore.instance;
+  }
+
+  /**
+   * Get the stored result for a key, or null if the key has not been used.
+   * Reusing a key for a different tool or account is rejected.
+   */
+  get(key: string, tool: string, account: string): CallToolResult | null {
+    const entry = this.store.read()[key];
+    if (!entry || Date.parse(entry.createdAt) + KEY_TTL_MS < Date.now()) {
+      return null;
+    }
+
+    if (entry.tool !== tool || entry.account !== account) {
+      throw new ValidationError(
+        `Idempotency key ${key} was already used for ${entry.tool} on account "${entry.account}"`,
+      );
+    }
+
+    logger.info(`Returning stored result of ${tool} for idempotency key ${key}`);
+    return entry.result;
+  }
+
+  /**
+   * Store the result of a successful call and drop expired keys.
+   */
+  remember(key: string, tool: string, account: string, result: CallToolResult): void {
+    this.store.update((entries) => {
+      for (const [storedKey, entry] of Object.entries(entries)) {
+        if (Date.parse(entry.createdAt) + KEY_TTL_MS < Date.now()) {
+          delete entries[storedKey];
+        }
+      }
+
+      entries[key] = { tool, account, result, createdAt: new Date().toISOString() };
+    });
+  }
+}
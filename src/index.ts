@@ -4,30 +4,51 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   type CallToolRequest,
   CallToolRequestSchema,
+  type CallToolResult,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { SearchMode } from 'agent-twitter-client';
+import { realpathSync } from 'fs';
+import type { Server as HttpServer } from 'http';
+import { fileURLToPath } from 'url';
 
-import { logger, validateEnv } from './config.js';
-import { twitterTools } from './tools/index.js';
-import { TwitterIntegration } from './twitter-integration.js';
-
-// Create the MCP server
-const server = new McpServer(
-  {
-    name: 'twitter-client-mcp',
-    version: '0.1.0',
-  },
-  {
-    capabilities: {
-      tools: {}, // We support tools
-      resources: {}, // Empty resources
-      prompts: {}, // Empty prompts
-    },
-  },
-);
+import { AccountRegistry } from './account-registry.js';
+import {
+  ApprovalQueue,
+  type PendingAction,
+  type PendingActionStatus,
+} from './approval-queue.js';
+import { ResponseCache } from './cache.js';
+import { type CacheType, config, logger, validateEnv } from './config.js';
+import { CredentialVault } from './credential-vault.js';
+import { type Draft, type DraftContent, DraftStore } from './draft-store.js';
+import { classifyError, ValidationError } from './errors.js';
+import {
+  formatProfiles,
+  formatThread,
+  formatTweets,
+  parseFormatOptions,
+} from './formatters.js';
+import { startHttpServer } from './http-server.js';
+import { IdempotencyStore } from './idempotency.js';
+import { RateLimiter } from './rate-limiter.js';
+import { trackRetries } from './retry.js';
+import {
+  isApprovalTool,
+  isWriteTool,
+  selectTools,
+  supportsDryRun,
+  twitterTools,
+} from './tools/index.js';
+import { type ScheduledTweetStatus, TweetScheduler } from './tweet-scheduler.js';
+import { analyzeTweetText, splitTweetText, weighTweetText } from './tweet-text.js';
+import { type PostedTweet, type ThreadSegment } from './twitter-integration.js';
+
+// Move credentials out of process.env before anything else can read them
+CredentialVault.getInstance();
 
 /**
  * Twitter server options
@@ -57,10 +78,30 @@ export interface TwitterServerOptions {
    * Whether to include write Twitter tools
    */
   includeWriteTools?: boolean;
+
+  /**
+   * If non-empty, only these tools are exposed (by tool name)
+   */
+  allowedTools?: string[];
+
+  /**
+   * Tools that are never exposed, even if otherwise included (by tool name)
+   */
+  deniedTools?: string[];
+
+  /**
+   * Whether write tool calls are queued for human approval instead of executed
+   */
+  approvalMode?: boolean;
+
+  /**
+   * Whether the server is used by a person to approve and reject queued actions
+   */
+  approvalReviewer?: boolean;
 }
 
-const setRequestHandlerforTools = async () => ({
-  tools: twitterTools,
+const setRequestHandlerforTools = (tools: Tool[]) => async () => ({
+  tools,
 });
 
 const setRequestHandlerforResourcesRequestSchema = async () => ({
@@ -71,11 +112,49 @@ const setRequestHandlerforPromptsSchema = async () => ({
   prompts: [],
 });
 
+/**
+ * Build a failed tool result that reports the error's code and whether it is retryable.
+ * Errors that are not yet typed are classified first.
+ */
+const errorResult = (error: unknown, context?: string): CallToolResult => {
+  const payload = classifyError(error).toPayload();
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          ...payload,
+          error: context ? `${context}: ${payload.error}` : payload.error,
+        }),
+      },
+    ],
+    isError: true,
+  };
+};
+
 const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) => {
+  const { result, retries } = await trackRetries(() =>
+    executeIdempotentToolCall(
+      request.params.name,
+      (request.params.arguments ?? {}) as Record<string, unknown>,
+    ),
+  );
+
+  // Report retries made along the way in the result metadata
+  return retries.length > 0 ? { ...result, _meta: { ...result._meta, retries } } : result;
+};
+
+const executeToolCall = async (
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<CallToolResult> => {
   try {
-    const toolName = request.params.name;
-    const args = request.params.arguments as Record<string, string | number>;
-    const twitter = TwitterIntegration.getInstance();
+    const dryRun = config.DRY_RUN || args.dryRun === true;
+    const fresh = args.fresh === true;
+    const formatOptions = parseFormatOptions(args);
+    const accounts = AccountRegistry.getInstance();
+    const twitter = accounts.get(args.account as string | undefined);
 
     logger.info(`Received tool call: ${toolName}`);
 
@@ -84,65 +163,29 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
       const username = args.username;
       logger.info(`Getting profile for username: ${username}`);
 
-      const profile = await twitter.getProfileByUsername(username as string);
-
-      if (!profile) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: `Profile not found for username: ${username}`,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
+      const profile = await twitter.getProfileByUsername(username as string, fresh);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(profile),
+            text: formatProfiles(profile, formatOptions),
           },
         ],
       };
     } else if (toolName === 'myProfile') {
       if (!args.check) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ error: "Parameter 'check' must be true" }),
-            },
-          ],
-          isError: true,
-        };
+        return errorResult(new ValidationError("Parameter 'check' must be true"));
       }
 
       logger.info("Getting authenticated user's profile");
       const profile = await twitter.getMyProfile();
 
-      if (!profile) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: "Failed to get authenticated user's profile",
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
-
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(profile),
+            text: formatProfiles(profile, formatOptions),
           },
         ],
       };
@@ -150,21 +193,7 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
       const username = args.username;
       logger.info(`Getting bio for username: ${username}`);
 
-      const bio = await twitter.getUserBio(username as string);
-
-      if (bio === null) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: `Bio not found for username: ${username}`,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
+      const bio = await twitter.getUserBio(username as string, fresh);
 
       return {
         content: [
@@ -178,21 +207,7 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
       const username = args.username;
       logger.info(`Getting user ID for username: ${username}`);
 
-      const userId = await twitter.getUserIdByUsername(username as string);
-
-      if (userId === null) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: `User ID not found for username: ${username}`,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
+      const userId = await twitter.getUserIdByUsername(username as string, fresh);
 
       return {
         content: [
@@ -206,7 +221,7 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
       const username = args.username;
       logger.info(`Checking if currently following user: ${username}`);
 
-      const isFollowing = await twitter.isFollowing(username as string);
+      const isFollowing = await twitter.isFollowing(username as string, fresh);
 
       return {
         content: [
@@ -216,6 +231,20 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
           },
         ],
       };
+    } else if (toolName === 'getRelationship') {
+      const username = args.username;
+      logger.info(`Getting relationship with user: ${username}`);
+
+      const relationship = await twitter.getRelationship(username as string, fresh);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(relationship),
+          },
+        ],
+      };
     }
 
     // Tweet tools
@@ -223,27 +252,13 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
       const tweetId = args.tweetId;
       logger.info(`Getting tweet with ID: ${tweetId}`);
 
-      const tweet = await twitter.getTweet(tweetId as string);
-
-      if (!tweet) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: `Tweet not found for ID: ${tweetId}`,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
+      const tweet = await twitter.getTweet(tweetId as string, fresh);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(tweet),
+            text: formatTweets(tweet, formatOptions),
           },
         ],
       };
@@ -253,13 +268,17 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
 
       logger.info(`Getting ${count} tweets for username: ${username}`);
 
-      const tweets = await twitter.getUserTweets(username as string, count as number);
+      const tweets = await twitter.getUserTweets(
+        username as string,
+        count as number,
+        args.cursor as string | undefined,
+      );
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(tweets),
+            text: formatTweets(tweets, formatOptions),
           },
         ],
       };
@@ -275,7 +294,7 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
         content: [
           {
             type: 'text',
-            text: JSON.stringify(tweets),
+            text: formatTweets(tweets, formatOptions),
           },
         ],
       };
@@ -283,21 +302,7 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
       const tweetId = args.tweetId;
       logger.info(`Getting text for tweet with ID: ${tweetId}`);
 
-      const tweetText = await twitter.getTweetText(tweetId as string);
-
-      if (tweetText === null) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: `Tweet text not found for ID: ${tweetId}`,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
+      const tweetText = await twitter.getTweetText(tweetId as string, fresh);
 
       return {
         content: [
@@ -313,54 +318,95 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
 
       logger.info(`Getting conversation thread for tweet with ID: ${tweetId}`);
 
-      const thread = await twitter.getConversationThread(tweetId as string, count as number);
+      const limits = {
+        maxDepth: (args.maxDepth as number) || 5,
+        maxBreadth: (args.maxBreadth as number) || 10,
+      };
 
-      if (thread.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: `No conversation found for tweet ID: ${tweetId}`,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
+      const thread = await twitter.getConversationThread(
+        tweetId as string,
+        count as number,
+        fresh,
+        limits,
+      );
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(thread),
+            text: formatThread(thread, formatOptions),
           },
         ],
       };
-    } else if (toolName === 'sendTweet') {
+    } else if (toolName === 'validateTweetText') {
       const text = args.text;
-      const inReplyToId = args.inReplyToId;
 
-      logger.info(
-        `Sending tweet: ${(text as string).substring(0, 30)}${(text as string).length > 30 ? '...' : ''}`,
-      );
+      if (typeof text !== 'string') {
+        return errorResult(new ValidationError("Parameter 'text' must be a string"));
+      }
 
-      const result = await twitter.sendTweet(text as string, undefined, inReplyToId as string);
+      const analysis = analyzeTweetText(text);
+      const segments =
+        args.split === true
+          ? splitTweetText(text).map((segment) => ({
+              text: segment,
+              weightedLength: weighTweetText(segment),
+            }))
+          : undefined;
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result),
+            text: JSON.stringify({ ...analysis, segments }),
           },
         ],
       };
-    } else if (toolName === 'likeTweet') {
-      const tweetId = args.tweetId;
+    } else if (toolName === 'sendTweet') {
+      const text = args.text;
+      const inReplyToId = args.inReplyToId;
+      const mediaIds = args.mediaIds;
 
-      logger.info(`Liking tweet with ID: ${tweetId}`);
+      if (mediaIds !== undefined && !Array.isArray(mediaIds)) {
+        return errorResult(new ValidationError("Parameter 'mediaIds' must be an array"));
+      }
+
+      const media = mediaIds?.length
+        ? mediaIds.map((mediaId) => ({ mediaId: mediaId as string }))
+        : undefined;
 
-      const result = await twitter.likeTweet(tweetId as string);
+      if (dryRun) {
+        logger.info('Dry run: previewing tweet');
+
+        const preview = await twitter.previewSendTweet(text as string, media, inReplyToId as string);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
+        };
+      }
+
+      logger.info(
+        `Sending tweet: ${(text as string).substring(0, 30)}${(text as string).length > 30 ? '...' : ''}`,
+      );
+
+      const result = media
+        ? await twitter.sendTweetWithMedia(
+            text as string,
+            media,
+            inReplyToId as string,
+            Boolean(args.idempotencyKey),
+          )
+        : await twitter.sendTweet(
+            text as string,
+            undefined,
+            inReplyToId as string,
+            Boolean(args.idempotencyKey),
+          );
 
       return {
         content: [
@@ -370,12 +416,36 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
           },
         ],
       };
-    } else if (toolName === 'retweet') {
-      const tweetId = args.tweetId;
+    } else if (toolName === 'quoteTweet') {
+      const text = args.text as string;
+      const quotedTweet = args.quotedTweet as string;
+      const media = args.media;
 
-      logger.info(`Retweeting tweet with ID: ${tweetId}`);
+      if (media !== undefined && !Array.isArray(media)) {
+        return errorResult(new ValidationError("Parameter 'media' must be an array"));
+      }
+
+      if (dryRun) {
+        logger.info(`Dry run: previewing quote of tweet: ${quotedTweet}`);
+
+        const preview = await twitter.previewQuoteTweet(text, quotedTweet, media);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
+        };
+      }
 
-      const result = await twitter.retweet(tweetId as string);
+      const result = await twitter.quoteTweet(
+        text,
+        quotedTweet,
+        media,
+        Boolean(args.idempotencyKey),
+      );
 
       return {
         content: [
@@ -385,162 +455,415 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
           },
         ],
       };
-    }
+    } else if (toolName === 'sendThread') {
+      const segments = args.segments as ThreadSegment[];
+      const inReplyToId = args.inReplyToId as string | undefined;
+      const postedTweetIds = args.postedTweetIds as string[] | undefined;
+      const onFailure = args.onFailure ?? config.THREAD_FAILURE_MODE;
+
+      if (onFailure !== 'resume' && onFailure !== 'rollback') {
+        return errorResult(
+          new ValidationError("Parameter 'onFailure' must be either 'resume' or 'rollback'"),
+        );
+      }
 
-    // Search tools
-    else if (toolName === 'searchTweets') {
-      const query = args.query;
-      const count = args.count || 20;
-      let searchMode = SearchMode.Top; // Default
+      if (dryRun) {
+        logger.info('Dry run: previewing thread');
 
-      // Map string searchMode to enum
-      if (args.searchMode === 'latest') searchMode = SearchMode.Latest;
-      else if (args.searchMode === 'photos') searchMode = SearchMode.Photos;
-      else if (args.searchMode === 'videos') searchMode = SearchMode.Videos;
+        const preview = await twitter.previewSendThread(segments, inReplyToId, postedTweetIds);
 
-      logger.info(`Searching tweets with query: ${query}`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
+        };
+      }
 
-      const tweets = await twitter.searchTweets(query as string, count as number, searchMode);
+      const result = await twitter.sendThread(segments, {
+        inReplyToId,
+        onFailure,
+        postedTweetIds,
+        retryTransient: Boolean(args.idempotencyKey),
+      });
 
+      // A thread that was not posted completely is an error, so it is not stored for replay
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(tweets),
+            text: JSON.stringify(result),
           },
         ],
+        isError: result.status !== 'posted',
       };
-    } else if (toolName === 'searchProfiles') {
-      const query = args.query;
-      const count = args.count || 20;
+    } else if (toolName === 'likeTweet') {
+      const tweetId = args.tweetId;
 
-      logger.info(`Searching profiles with query: ${query}`);
+      if (dryRun) {
+        logger.info(`Dry run: previewing likeTweet for tweet with ID: ${tweetId}`);
+
+        const preview = await twitter.previewTweetAction('likeTweet', tweetId as string);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
+        };
+      }
+
+      logger.info(`Liking tweet with ID: ${tweetId}`);
 
-      const profiles = await twitter.searchProfiles(query as string, count as number);
+      await twitter.likeTweet(tweetId as string);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(profiles),
+            text: JSON.stringify({ success: true, tweetId }),
           },
         ],
       };
-    }
+    } else if (toolName === 'unlikeTweet') {
+      const tweetId = args.tweetId;
 
-    // Relationship tools
-    else if (toolName === 'getTwitterFollowers') {
-      const username = args.username;
-      const count = args.count || 20;
+      if (dryRun) {
+        logger.info(`Dry run: previewing unlikeTweet for tweet with ID: ${tweetId}`);
 
-      logger.info(`Getting ${count} followers for username: ${username}`);
+        const preview = await twitter.previewTweetAction('unlikeTweet', tweetId as string);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
+        };
+      }
 
-      const followers = await twitter.getFollowers(username as string, count as number);
+      logger.info(`Unliking tweet with ID: ${tweetId}`);
+
+      await twitter.unlikeTweet(tweetId as string);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(followers),
+            text: JSON.stringify({ success: true, tweetId }),
           },
         ],
       };
-    } else if (toolName === 'getTwitterFollowing') {
-      const username = args.username;
-      const count = args.count || 20;
+    } else if (toolName === 'retweet') {
+      const tweetId = args.tweetId;
 
-      logger.info(`Getting ${count} following for username: ${username}`);
+      if (dryRun) {
+        logger.info(`Dry run: previewing retweet for tweet with ID: ${tweetId}`);
 
-      const following = await twitter.getFollowing(username as string, count as number);
+        const preview = await twitter.previewTweetAction('retweet', tweetId as string);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(following),
-          },
-        ],
-      };
-    } else if (toolName === 'followUser') {
-      const username = args.username;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
+        };
+      }
 
-      logger.info(`Following user: ${username}`);
+      logger.info(`Retweeting tweet with ID: ${tweetId}`);
 
-      const result = await twitter.followUser(username as string);
+      await twitter.retweet(tweetId as string);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result),
+            text: JSON.stringify({ success: true, tweetId }),
           },
         ],
       };
-    }
-
-    // Media tools
-    else if (toolName === 'uploadMedia') {
-      const data = args.data;
-      const mediaType = args.mediaType;
+    } else if (toolName === 'unretweet') {
+      const tweetId = args.tweetId;
 
-      logger.info(`Processing media of type: ${mediaType}`);
+      if (dryRun) {
+        logger.info(`Dry run: previewing unretweet for tweet with ID: ${tweetId}`);
 
-      try {
-        const mediaItem = await twitter.uploadMedia(data as string, mediaType as string);
+        const preview = await twitter.previewTweetAction('unretweet', tweetId as string);
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: 'Media prepared successfully',
-                mediaItem: { type: mediaType }, // We don't return the full data to avoid large responses
-              }),
+              text: JSON.stringify(preview),
             },
           ],
         };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: `Failed to process media: ${error instanceof Error ? error.message : String(error)}`,
-              }),
-            },
-          ],
-          isError: true,
+      }
+
+      logger.info(`Undoing retweet of tweet with ID: ${tweetId}`);
+
+      await twitter.unretweet(tweetId as string);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, tweetId }),
+          },
+        ],
+      };
+    } else if (toolName === 'deleteTweet') {
+      const tweetId = args.tweetId;
+
+      if (dryRun) {
+        logger.info(`Dry run: previewing deleteTweet for tweet with ID: ${tweetId}`);
+
+        const preview = await twitter.previewTweetAction('deleteTweet', tweetId as string);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
         };
       }
-    } else if (toolName === 'sendTweetWithMedia') {
-      const text = args.text;
-      const media = args.media;
-      const inReplyToId = args.inReplyToId;
 
-      if (!Array.isArray(media) || media.length === 0) {
+      logger.info(`Deleting tweet with ID: ${tweetId}`);
+
+      await twitter.deleteTweet(tweetId as string);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, tweetId }),
+          },
+        ],
+      };
+    }
+
+    // Search tools
+    else if (toolName === 'searchTweets') {
+      const query = args.query;
+      const count = args.count || 20;
+      let searchMode = SearchMode.Top; // Default
+
+      // Map string searchMode to enum
+      if (args.searchMode === 'latest') searchMode = SearchMode.Latest;
+      else if (args.searchMode === 'photos') searchMode = SearchMode.Photos;
+      else if (args.searchMode === 'videos') searchMode = SearchMode.Videos;
+
+      logger.info(`Searching tweets with query: ${query}`);
+
+      const tweets = await twitter.searchTweets(
+        query as string,
+        count as number,
+        searchMode,
+        args.cursor as string | undefined,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatTweets(tweets, formatOptions),
+          },
+        ],
+      };
+    } else if (toolName === 'searchProfiles') {
+      const query = args.query;
+      const count = args.count || 20;
+
+      logger.info(`Searching profiles with query: ${query}`);
+
+      const profiles = await twitter.searchProfiles(
+        query as string,
+        count as number,
+        args.cursor as string | undefined,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatProfiles(profiles, formatOptions),
+          },
+        ],
+      };
+    }
+
+    // Relationship tools
+    else if (toolName === 'getTwitterFollowers') {
+      const username = args.username;
+      const count = args.count || 20;
+
+      logger.info(`Getting ${count} followers for username: ${username}`);
+
+      const followers = await twitter.getFollowers(
+        username as string,
+        count as number,
+        args.cursor as string | undefined,
+        fresh,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatProfiles(followers, formatOptions),
+          },
+        ],
+      };
+    } else if (toolName === 'getTwitterFollowing') {
+      const username = args.username;
+      const count = args.count || 20;
+
+      logger.info(`Getting ${count} following for username: ${username}`);
+
+      const following = await twitter.getFollowing(
+        username as string,
+        count as number,
+        args.cursor as string | undefined,
+        fresh,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatProfiles(following, formatOptions),
+          },
+        ],
+      };
+    } else if (toolName === 'followUser') {
+      const username = args.username;
+
+      if (dryRun) {
+        logger.info(`Dry run: previewing follow of user: ${username}`);
+
+        const preview = await twitter.previewFollowUser(username as string);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview),
+            },
+          ],
+        };
+      }
+
+      logger.info(`Following user: ${username}`);
+
+      await twitter.followUser(username as string);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, username }),
+          },
+        ],
+      };
+    } else if (toolName === 'unfollowUser') {
+      const username = args.username;
+
+      if (dryRun) {
+        logger.info(`Dry run: previewing unfollow of user: ${username}`);
+
+        const preview = await twitter.previewFollowUser(username as string, 'unfollowUser');
+
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                error: 'Media array is required and must not be empty',
-              }),
+              text: JSON.stringify(preview),
             },
           ],
-          isError: true,
         };
       }
 
+      logger.info(`Unfollowing user: ${username}`);
+
+      await twitter.unfollowUser(username as string);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, username }),
+          },
+        ],
+      };
+    }
+
+    // Media tools
+    else if (toolName === 'uploadMedia') {
+      const data = args.data as string | undefined;
+      const mediaType = args.mediaType as string | undefined;
+      const path = args.path as string | undefined;
+
+      logger.info(`Storing media ${path ? `from ${path}` : `of type: ${mediaType}`}`);
+
+      try {
+        const handle = await twitter.uploadMedia({ data, mediaType, path });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, ...handle }),
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error, 'Failed to process media');
+      }
+    } else if (toolName === 'sendTweetWithMedia') {
+      const text = args.text;
+      const media = args.media;
+      const inReplyToId = args.inReplyToId;
+
+      if (!Array.isArray(media) || media.length === 0) {
+        return errorResult(new ValidationError('Media array is required and must not be empty'));
+      }
+
       logger.info(
         `Sending tweet with ${media.length} media items: ${(text as string).substring(0, 30)}${(text as string).length > 30 ? '...' : ''}`,
       );
 
       try {
+        if (dryRun) {
+          const preview = await twitter.previewSendTweet(
+            text as string,
+            media,
+            inReplyToId as string,
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(preview),
+              },
+            ],
+          };
+        }
+
         const result = await twitter.sendTweetWithMedia(
           text as string,
           media,
           inReplyToId as string,
+          Boolean(args.idempotencyKey),
         );
 
         return {
@@ -552,53 +875,508 @@ const setRequestHandlerforToolRequestSchema = async (request: CallToolRequest) =
           ],
         };
       } catch (error) {
+        return errorResult(error, 'Failed to send tweet with media');
+      }
+    }
+
+    // Account tools
+    else if (toolName === 'listAccounts') {
+      logger.info('Listing configured accounts');
+
+      const accountStatuses = await accounts.list();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(accountStatuses),
+          },
+        ],
+      };
+    } else if (toolName === 'getRateLimitStatus') {
+      logger.info(`Getting rate limit status for account: ${twitter.account}`);
+
+      const buckets = RateLimiter.getInstance().status(twitter.account);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              account: twitter.account,
+              mode: config.RATE_LIMIT_MODE,
+              budgets: buckets,
+            }),
+          },
+        ],
+      };
+    }
+
+    // Cache tools
+    else if (toolName === 'getCacheStats') {
+      logger.info('Getting cache statistics');
+
+      const stats = ResponseCache.getInstance().stats();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(stats),
+          },
+        ],
+      };
+    } else if (toolName === 'clearCache') {
+      const filter = {
+        account: args.account as string | undefined,
+        type: args.type as CacheType | undefined,
+        key: args.key as string | undefined,
+      };
+
+      logger.info(`Clearing cache entries: ${JSON.stringify(filter)}`);
+
+      const removed = ResponseCache.getInstance().invalidate(filter);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, removed }),
+          },
+        ],
+      };
+    }
+
+    // Session tools
+    else if (toolName === 'clearSession') {
+      if (!args.confirm) {
+        return errorResult(new ValidationError("Parameter 'confirm' must be true"));
+      }
+
+      logger.info('Clearing stored Twitter session');
+
+      await twitter.clearSession();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, message: 'Stored Twitter session cleared' }),
+          },
+        ],
+      };
+    }
+
+    // Scheduling tools
+    else if (toolName === 'scheduleTweet') {
+      const text = args.text as string;
+      const media = args.media;
+      const inReplyToId = args.inReplyToId as string | undefined;
+
+      if (media !== undefined && !Array.isArray(media)) {
+        return errorResult(new ValidationError("Parameter 'media' must be an array"));
+      }
+
+      logger.info(`Scheduling tweet for ${args.publishAt}`);
+
+      // Validate the tweet now, so that problems surface when scheduling rather than publishing
+      await twitter.previewSendTweet(text, media, inReplyToId);
+
+      const scheduled = TweetScheduler.getInstance().schedule(
+        twitter.account,
+        { text, media, inReplyToId },
+        args.publishAt as string,
+        dryRun,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              dryRun
+                ? { dryRun: true, action: 'scheduleTweet', scheduledTweet: scheduled }
+                : scheduled,
+            ),
+          },
+        ],
+      };
+    } else if (toolName === 'listScheduledTweets') {
+      const status = args.status as ScheduledTweetStatus | undefined;
+
+      logger.info(`Listing ${status ?? 'all'} scheduled tweets`);
+
+      const scheduled = TweetScheduler.getInstance().list(status, args.account as string);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(scheduled),
+          },
+        ],
+      };
+    } else if (toolName === 'rescheduleTweet') {
+      const scheduledTweetId = args.scheduledTweetId as string;
+
+      logger.info(`Rescheduling tweet ${scheduledTweetId} for ${args.publishAt}`);
+
+      const scheduled = TweetScheduler.getInstance().reschedule(
+        scheduledTweetId,
+        args.publishAt as string,
+        dryRun,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              dryRun
+                ? { dryRun: true, action: 'rescheduleTweet', scheduledTweet: scheduled }
+                : scheduled,
+            ),
+          },
+        ],
+      };
+    } else if (toolName === 'cancelScheduledTweet') {
+      const scheduledTweetId = args.scheduledTweetId as string;
+
+      logger.info(`Cancelling scheduled tweet ${scheduledTweetId}`);
+
+      const scheduled = TweetScheduler.getInstance().cancel(scheduledTweetId, dryRun);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              dryRun
+                ? { dryRun: true, action: 'cancelScheduledTweet', scheduledTweet: scheduled }
+                : scheduled,
+            ),
+          },
+        ],
+      };
+    }
+
+    // Draft tools
+    else if (toolName === 'createDraft') {
+      logger.info(`Creating draft for account: ${twitter.account}`);
+
+      const draft = DraftStore.getInstance().create(twitter.account, {
+        text: args.text as string,
+        media: args.media as DraftContent['media'],
+        inReplyToId: args.inReplyToId as string | undefined,
+        quotedTweet: args.quotedTweet as string | undefined,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(draft),
+          },
+        ],
+      };
+    } else if (toolName === 'updateDraft') {
+      const draftId = args.draftId as string;
+
+      logger.info(`Updating draft: ${draftId}`);
+
+      // Only the fields passed in the call change
+      const changes = Object.fromEntries(
+        ['text', 'media', 'inReplyToId', 'quotedTweet']
+          .filter((field) => args[field] !== undefined)
+          .map((field) => [field, args[field]]),
+      );
+      const draft = DraftStore.getInstance().update(
+        draftId,
+        changes,
+        args.restoreVersion as number | undefined,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(draft),
+          },
+        ],
+      };
+    } else if (toolName === 'listDrafts') {
+      const status = (args.status as Draft['status']) || 'draft';
+
+      logger.info(`Listing ${status} drafts`);
+
+      const drafts = DraftStore.getInstance().list(args.account as string, status);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(drafts),
+          },
+        ],
+      };
+    } else if (toolName === 'getDraft') {
+      const draftId = args.draftId as string;
+
+      logger.info(`Getting draft: ${draftId}`);
+
+      const draft = DraftStore.getInstance().get(draftId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(draft),
+          },
+        ],
+      };
+    } else if (toolName === 'deleteDraft') {
+      const draftId = args.draftId as string;
+
+      logger.info(`Deleting draft: ${draftId}`);
+
+      DraftStore.getInstance().delete(draftId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, draftId }),
+          },
+        ],
+      };
+    } else if (toolName === 'publishDraft') {
+      const draftId = args.draftId as string;
+      const drafts = DraftStore.getInstance();
+      const draft = drafts.getForPublishing(draftId);
+
+      // An approved action posts the content it was queued with, not the draft's current one
+      const queued: DraftContent | undefined =
+        typeof args.text === 'string'
+          ? {
+              text: args.text,
+              media: args.media as DraftContent['media'],
+              inReplyToId: args.inReplyToId as string | undefined,
+              quotedTweet: args.quotedTweet as string | undefined,
+            }
+          : undefined;
+      const content = queued ?? draft;
+
+      // Drafts are posted by the account they were written for
+      const author = accounts.get(draft.account);
+
+      if (dryRun) {
+        logger.info(`Dry run: previewing draft: ${draftId}`);
+
+        const preview = content.quotedTweet
+          ? await author.previewQuoteTweet(content.text, content.quotedTweet, content.media)
+          : await author.previewSendTweet(content.text, content.media, content.inReplyToId);
+
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                error: `Failed to send tweet with media: ${error instanceof Error ? error.message : String(error)}`,
-              }),
+              text: JSON.stringify({ ...preview, draftId }),
             },
           ],
-          isError: true,
         };
       }
+
+      logger.info(`Publishing draft: ${draftId}`);
+
+      // Claim the draft first, so that concurrent calls cannot post it twice
+      const { text, media, inReplyToId, quotedTweet } = drafts.claimForPublishing(
+        draftId,
+        queued,
+      );
+      const retryTransient = Boolean(args.idempotencyKey);
+      const startedAt = Date.now();
+      let posted: PostedTweet | undefined;
+      try {
+        if (quotedTweet) {
+          posted = await author.quoteTweet(text, quotedTweet, media, retryTransient);
+        } else {
+          const response = media
+            ? await author.sendTweetWithMedia(text, media, inReplyToId, retryTransient)
+            : await author.sendTweet(text, undefined, inReplyToId, retryTransient);
+          // The tweet was accepted, so the draft is published even if its ID cannot be found
+          posted = await author.readPost(response, text, startedAt, { inReplyToId });
+        }
+      } catch (error) {
+        drafts.releaseClaim(draftId, classifyError(error).message);
+        throw error;
+      }
+
+      const published = drafts.markPublished(draftId, posted);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(published),
+          },
+        ],
+      };
     }
 
-    // Unknown tool
-    else {
+    // Approval tools
+    else if (toolName === 'listPendingActions') {
+      const status = (args.status as PendingActionStatus) || 'pending';
+
+      logger.info(`Listing ${status} actions`);
+
+      const actions = ApprovalQueue.getInstance().list(status);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(actions),
+          },
+        ],
+      };
+    } else if (toolName === 'approvePendingAction') {
+      const actionId = args.actionId as string;
+      const edits = args.edits as Record<string, unknown> | undefined;
+
+      logger.info(`Approving pending action: ${actionId}`);
+
+      const queue = ApprovalQueue.getInstance();
+
+      // Validate the action as it will run, with the edits applied, before claiming it.
+      // Tools without a dry run (clearSession) would run for real, so they are not checked.
+      const pending = queue.preview(actionId, edits);
+      if (supportsDryRun(pending.tool)) {
+        const check = await executeToolCall(pending.tool, { ...pending.arguments, dryRun: true });
+        if (check.isError) {
+          return check;
+        }
+      }
+
+      const action = queue.approve(actionId, edits);
+      const result = await executeIdempotentToolCall(action.tool, action.arguments);
+
+      // Tool results carry a single JSON text item; the action has run even if it is not JSON
+      const [output] = result.content;
+      let parsed: { error?: string } | string | null = null;
+      if (output?.type === 'text') {
+        try {
+          parsed = JSON.parse(output.text);
+        } catch {
+          parsed = output.text;
+        }
+      }
+      const updated = queue.recordOutcome(
+        actionId,
+        result.isError
+          ? { error: (typeof parsed === 'object' && parsed?.error) || 'Action failed' }
+          : { result: parsed },
+      );
+
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify({ error: `Unknown tool: ${toolName}` }),
+            text: JSON.stringify(updated),
+          },
+        ],
+        isError: result.isError,
+      };
+    } else if (toolName === 'rejectPendingAction') {
+      const actionId = args.actionId as string;
+      const reason = args.reason as string | undefined;
+
+      logger.info(`Rejecting pending action: ${actionId}`);
+
+      const action = ApprovalQueue.getInstance().reject(actionId, reason);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(action),
           },
         ],
-        isError: true,
       };
     }
+
+    // Unknown tool
+    else {
+      return errorResult(new ValidationError(`Unknown tool: ${toolName}`));
+    }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
-    const errorStack = error instanceof Error ? error.stack : undefined;
-
     logger.error(`Error processing request: ${errorMessage}`);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            error: `Error processing request: ${errorMessage}`,
-            stack: errorStack,
-          }),
-        },
-      ],
-      isError: true,
-    };
+    return errorResult(error, 'Error processing request');
   }
 };
 
+/**
+ * Execute a tool call, returning the stored result when a write is repeated with the same
+ * idempotency key. Only successful results are stored, so failed calls can be retried.
+ */
+const executeIdempotentToolCall = async (
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<CallToolResult> => {
+  const dryRun = config.DRY_RUN || args.dryRun === true;
+  const key = args.idempotencyKey;
+
+  if (typeof key !== 'string' || !key || dryRun || !isWriteTool(toolName)) {
+    return executeToolCall(toolName, args);
+  }
+
+  try {
+    const idempotency = IdempotencyStore.getInstance();
+    const account = AccountRegistry.getInstance().get(args.account as string | undefined).account;
+
+    const stored = idempotency.get(key, toolName, account);
+    if (stored) {
+      return { ...stored, _meta: { ...stored._meta, idempotentReplay: true } };
+    }
+
+    const result = await executeToolCall(toolName, args);
+    if (!result.isError) {
+      idempotency.remember(key, toolName, account, result);
+    }
+
+    return result;
+  } catch (error) {
+    return errorResult(error);
+  }
+};
+
+/**
+ * Get the arguments to queue a write action with. publishDraft is queued with the draft's
+ * current content, so that the reviewer sees (and may edit) the text that will be posted,
+ * whatever happens to the draft in the meantime.
+ */
+const queuedArguments = (
+  toolName: string,
+  args: Record<string, unknown>,
+): Record<string, unknown> => {
+  if (toolName !== 'publishDraft') {
+    return args;
+  }
+
+  // Content given by the caller is replaced by the draft's
+  const { draftId, idempotencyKey } = args;
+  const draft = DraftStore.getInstance().getForPublishing(draftId as string);
+  return {
+    draftId,
+    ...(idempotencyKey !== undefined && { idempotencyKey }),
+    text: draft.text,
+    ...(draft.media && { media: draft.media }),
+    ...(draft.inReplyToId && { inReplyToId: draft.inReplyToId }),
+    ...(draft.quotedTweet && { quotedTweet: draft.quotedTweet }),
+  };
+};
+
 /**
  * Creates a Twitter MCP server
  * @param options Server configuration options
@@ -623,10 +1401,21 @@ export function createTwitterServer(options: TwitterServerOptions): {
     },
   );
 
-  const twitter = TwitterIntegration.getInstance();
+  // Resolve which tools this server exposes
+  const tools = selectTools(options);
+  const enabledToolNames = new Set(tools.map((tool) => tool.name));
+
+  const unknownToolNames = [...(options.allowedTools ?? []), ...(options.deniedTools ?? [])].filter(
+    (name) => !twitterTools.some((tool) => tool.name === name),
+  );
+  if (unknownToolNames.length > 0) {
+    logger.warn(`Ignoring unknown tool names in allow/deny lists: ${unknownToolNames.join(', ')}`);
+  }
+
+  logger.info(`Exposing ${tools.length} of ${twitterTools.length} tools`);
 
   // Handle tool listing
-  server.server.setRequestHandler(ListToolsRequestSchema, setRequestHandlerforTools);
+  server.server.setRequestHandler(ListToolsRequestSchema, setRequestHandlerforTools(tools));
 
   // Handle empty resources
   server.server.setRequestHandler(
@@ -637,32 +1426,76 @@ export function createTwitterServer(options: TwitterServerOptions): {
   // Handle empty prompts
   server.server.setRequestHandler(ListPromptsRequestSchema, setRequestHandlerforPromptsSchema);
 
-  // Handle tool calls
-  server.server.setRequestHandler(CallToolRequestSchema, setRequestHandlerforToolRequestSchema);
+  // Handle tool calls, rejecting tools that are not exposed by this server
+  server.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    if (!enabledToolNames.has(request.params.name)) {
+      logger.warn(`Rejected call to disabled tool: ${request.params.name}`);
+      return errorResult(new ValidationError(`Tool not available: ${request.params.name}`));
+    }
+
+    // In approval mode, write actions are queued instead of executed
+    const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+    // Tools without a dry run would run for real, so they are queued even in dry-run mode
+    const dryRun =
+      (config.DRY_RUN || args.dryRun === true) && supportsDryRun(request.params.name);
+
+    if (
+      options.approvalMode &&
+      isWriteTool(request.params.name) &&
+      !isApprovalTool(request.params.name) &&
+      !dryRun
+    ) {
+      const client = server.server.getClientVersion();
+      let action: PendingAction;
+      try {
+        action = ApprovalQueue.getInstance().enqueue(
+          request.params.name,
+          queuedArguments(request.params.name, args),
+          client ? { name: client.name, version: client.version } : null,
+        );
+      } catch (error) {
+        return errorResult(error);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              status: 'pending_approval',
+              actionId: action.id,
+              message: `${request.params.name} was queued and will run once a person approves it`,
+            }),
+          },
+        ],
+      };
+    }
+
+    return setRequestHandlerforToolRequestSchema(request);
+  });
 
   // Return the server and cleanup function
   return {
     server,
     cleanup: async () => {
-      await twitter.cleanup();
+      await AccountRegistry.getInstance().cleanup();
+      ResponseCache.getInstance().flush();
     },
   };
 }
 
-// Handle tool listing
-server.server.setRequestHandler(ListToolsRequestSchema, setRequestHandlerforTools);
-
-// Handle empty resources
-server.server.setRequestHandler(
-  ListResourcesRequestSchema,
-  setRequestHandlerforResourcesRequestSchema,
-);
-
-// Handle empty prompts
-server.server.setRequestHandler(ListPromptsRequestSchema, setRequestHandlerforPromptsSchema);
-
-// Handle tool calls
-server.server.setRequestHandler(CallToolRequestSchema, setRequestHandlerforToolRequestSchema);
+// Create an MCP server using the tool selection from the environment
+const createConfiguredServer = () =>
+  createTwitterServer({
+    name: 'twitter-client-mcp',
+    version: '0.1.0',
+    includeReadTools: config.INCLUDE_READ_TOOLS,
+    includeWriteTools: config.INCLUDE_WRITE_TOOLS,
+    allowedTools: config.ALLOWED_TOOLS,
+    deniedTools: config.DENIED_TOOLS,
+    approvalMode: config.APPROVAL_MODE,
+    approvalReviewer: config.APPROVAL_REVIEWER,
+  }).server;
 
 // Initialize and run the server
 async function runServer() {
@@ -670,22 +1503,47 @@ async function runServer() {
     // Validate environment variables
     logger.info('Validating environment variables...');
     validateEnv();
+    CredentialVault.getInstance().validate();
+
+    // Initialize the default account; other accounts log in on first use
+    logger.info(`Initializing Twitter integration for account "${config.DEFAULT_ACCOUNT}"...`);
+    await AccountRegistry.getInstance().get().initialize();
 
-    // Initialize Twitter integration
-    logger.info('Initializing Twitter integration...');
-    await TwitterIntegration.getInstance().initialize();
+    // Publish scheduled tweets in the background
+    TweetScheduler.getInstance().start();
+    DraftStore.getInstance().recoverInterrupted();
 
-    // Connect transport (Use Stdio)
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    // Connect transport: one HTTP server shared by many sessions, or a single stdio client
+    let httpServer: HttpServer | undefined;
 
-    logger.info('Twitter Client MCP Server running on stdio');
+    if (config.TRANSPORT === 'http') {
+      httpServer = await startHttpServer(createConfiguredServer, {
+        host: config.HTTP_HOST,
+        port: config.HTTP_PORT,
+        authToken: config.HTTP_AUTH_TOKEN,
+        allowedHosts: config.HTTP_ALLOWED_HOSTS,
+        allowedOrigins: config.HTTP_ALLOWED_ORIGINS,
+        sessionIdleMs: config.HTTP_SESSION_IDLE_MS,
+      });
+
+      logger.info(
+        `Twitter Client MCP Server running on http://${config.HTTP_HOST}:${config.HTTP_PORT}/mcp`,
+      );
+    } else {
+      const transport = new StdioServerTransport();
+      await createConfiguredServer().connect(transport);
+
+      logger.info('Twitter Client MCP Server running on stdio');
+    }
 
     // Handle cleanup on shutdown
     const cleanup = async () => {
       try {
         logger.info('Shutting down Twitter Client MCP Server...');
-        await TwitterIntegration.getInstance().cleanup();
+        httpServer?.close();
+        TweetScheduler.getInstance().stop();
+        await AccountRegistry.getInstance().cleanup();
+        ResponseCache.getInstance().flush();
         process.exit(0);
       } catch (error) {
         logger.error(`Error during shutdown: ${error}`);
@@ -706,5 +1564,7 @@ async function runServer() {
   }
 }
 
-// Run the server
-runServer();
+// Run the server when started as a program, not when imported (e.g. by the tests)
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  runServer();
+}
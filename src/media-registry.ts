@@ -0,0 +1,344 @@
+import { randomUUID } from 'crypto';
+import { mkdirSync, readFileSync, realpathSync, rmSync, statSync, writeFileSync } from 'fs';
+import { isAbsolute, relative, resolve } from 'path';
+
+import { config, logger } from './config.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import type { MediaData } from './media-validator.js';
+import { dataPath, JsonFileStore } from './storage.js';
+
+/**
+ * Media attached to a tweet: inline base64 data, the ID of media stored with uploadMedia, or
+ * the path of a file in one of the MEDIA_ALLOWED_DIRS. The format is detected from the media
+ * itself, so mediaType is optional.
+ */
+export interface MediaInput {
+  data?: string;
+  mediaType?: string;
+  mediaId?: string;
+  path?: string;
+}
+
+/**
+ * Media stored in the registry
+ */
+export interface MediaHandle {
+  mediaId: string;
+  mediaType: string;
+  size: number;
+  createdAt: string;
+  expiresAt: string;
+  /**
+   * Scheduled tweets and drafts that refer to the media. Pinned media does not expire and
+   * is never removed to make room.
+   */
+  pinnedBy?: string[];
+}
+
+/**
+ * Media as shown to clients: its ID if it was stored, its type and size, but not its data
+ */
+export interface MediaSummary {
+  mediaId?: string;
+  path?: string;
+  mediaType?: string;
+  size?: number;
+}
+
+/**
+ * Directory inside the data directory that holds the stored media files
+ */
+const MEDIA_DIR = 'media';
+
+/**
+ * Largest media file that is read from disk, the video size limit
+ */
+const MAX_MEDIA_FILE_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Whether a path is inside one of the given directories.
+ */
+function isInsideDirectory(dirs: string[], path: string): boolean {
+  return dirs.some((dir) => {
+    const inside = relative(dir, path);
+    return inside !== '' && !inside.startsWith('..') && !isAbsolute(inside);
+  });
+}
+
+/**
+ * Read a media file from one of the MEDIA_ALLOWED_DIRS. Relative paths are resolved against
+ * the first allowed directory. The path is checked both as given, after resolving `..`
+ * segments, and after resolving symlinks, so that neither can reach a file outside the
+ * allowed directories.
+ */
+function readMediaFile(path: string, mediaType?: string): MediaData {
+  const dirs = config.MEDIA_ALLOWED_DIRS;
+  if (dirs.length === 0) {
+    throw new ValidationError('Media paths are disabled. Set MEDIA_ALLOWED_DIRS to enable them.');
+  }
+
+  const outside = new ValidationError(`Media path is outside the allowed directories: ${path}`);
+  const absolutePath = resolve(dirs[0], path);
+  if (!isInsideDirectory(dirs, absolutePath)) {
+    throw outside;
+  }
+
+  let realPath: string;
+  try {
+    realPath = realpathSync(absolutePath);
+  } catch {
+    throw new NotFoundError(`Media file not found: ${path}`);
+  }
+
+  const realDirs = dirs.flatMap((dir) => {
+    try {
+      return [realpathSync(dir)];
+    } catch {
+      return [];
+    }
+  });
+  if (!isInsideDirectory(realDirs, realPath)) {
+    throw outside;
+  }
+
+  const stats = statSync(realPath);
+  if (!stats.isFile()) {
+    throw new ValidationError(`Media path is not a file: ${path}`);
+  }
+  if (stats.size > MAX_MEDIA_FILE_BYTES) {
+    throw new ValidationError(`Media file exceeds the maximum size of 512MB: ${path}`);
+  }
+
+  return { data: readFileSync(realPath), mediaType };
+}
+
+/**
+ * Decode base64 data or a data URL.
+ */
+function decodeBase64(data: string): Buffer {
+  return Buffer.from(data.replace(/^data:.*?;base64,/, ''), 'base64');
+}
+
+/**
+ * MediaRegistry stores media uploaded with uploadMedia in the local data directory, so that
+ * tweets, threads, drafts and scheduled tweets can refer to it by ID instead of repeating
+ * the data. Media expires after MEDIA_TTL_MS, and the oldest media is removed when the
+ * registry would grow beyond MEDIA_MAX_BYTES, unless a scheduled tweet or draft has pinned it.
+ */
+export class MediaRegistry {
+  private static instance: MediaRegistry;
+  private readonly store = new JsonFileStore<MediaHandle[]>('media.json', () => []);
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of MediaRegistry.
+   */
+  public static getInstance(): MediaRegistry {
+    if (!MediaRegistry.instance) {
+      MediaRegistry.instance = new MediaRegistry();
+    }
+    return MediaRegistry.instance;
+  }
+
+  /**
+   * Store media and return its handle.
+   */
+  register(data: Buffer, mediaType: string): MediaHandle {
+    if (data.length > config.MEDIA_MAX_BYTES) {
+      throw new ValidationError(
+        `Media is ${data.length} bytes, exceeding the media registry limit of ${config.MEDIA_MAX_BYTES} bytes`,
+      );
+    }
+
+    const now = Date.now();
+    const handle: MediaHandle = {
+      mediaId: randomUUID(),
+      mediaType,
+      size: data.length,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + config.MEDIA_TTL_MS).toISOString(),
+    };
+
+    mkdirSync(dataPath(MEDIA_DIR), { recursive: true, mode: 0o700 });
+    writeFileSync(this.filePath(handle.mediaId), data, { mode: 0o600 });
+
+    try {
+      this.store.update((handles) => {
+        const kept = this.removeExpired(handles);
+
+        // Make room by removing the oldest unpinned media first
+        let total = kept.reduce((sum, entry) => sum + entry.size, 0) + handle.size;
+        for (const oldest of kept.filter((entry) => !entry.pinnedBy?.length)) {
+          if (total <= config.MEDIA_MAX_BYTES) {
+            break;
+          }
+          kept.splice(kept.indexOf(oldest), 1);
+          this.deleteFile(oldest.mediaId);
+          total -= oldest.size;
+          logger.info(`Removed media ${oldest.mediaId} to stay within the media registry limit`);
+        }
+
+        if (total > config.MEDIA_MAX_BYTES) {
+          throw new ValidationError(
+            'The media registry is full of media used by scheduled tweets and drafts. Publish, cancel or delete some of them first.',
+          );
+        }
+
+        kept.push(handle);
+        handles.splice(0, handles.length, ...kept);
+      });
+    } catch (error) {
+      this.deleteFile(handle.mediaId);
+      throw error;
+    }
+
+    logger.info(`Stored media ${handle.mediaId} (${mediaType}, ${data.length} bytes)`);
+    return handle;
+  }
+
+  /**
+   * Get the handle of stored media, or undefined if it does not exist or has expired.
+   */
+  get(mediaId: string): MediaHandle | undefined {
+    return this.store
+      .read()
+      .find((handle) => handle.mediaId === mediaId && !this.isExpired(handle));
+  }
+
+  /**
+   * Pin the stored media among `media` for `owner`, a scheduled tweet or draft, and unpin the
+   * media it no longer refers to. Pinned media is kept until every owner has unpinned it.
+   */
+  pin(owner: string, media: MediaInput[] = []): void {
+    const mediaIds = new Set(media.flatMap((item) => (item.mediaId ? [item.mediaId] : [])));
+
+    // Check before updating, so that owners without stored media do not rewrite the registry
+    const pinned = this.store.read().some((handle) => handle.pinnedBy?.includes(owner));
+    if (mediaIds.size === 0 && !pinned) {
+      return;
+    }
+
+    // Media that has already expired cannot be pinned; publishing reports it as not found
+    this.store.update((stored) => {
+      for (const handle of stored) {
+        const others = (handle.pinnedBy ?? []).filter((pinner) => pinner !== owner);
+        const pinnedBy = mediaIds.has(handle.mediaId) ? [...others, owner] : others;
+        if (pinnedBy.length > 0) {
+          handle.pinnedBy = pinnedBy;
+        } else {
+          delete handle.pinnedBy;
+        }
+      }
+    });
+  }
+
+  /**
+   * Release all media pinned by `owner`.
+   */
+  unpin(owner: string): void {
+    this.pin(owner, []);
+  }
+
+  /**
+   * Read stored media.
+   */
+  read(mediaId: string): { data: Buffer; mediaType: string } {
+    const handle = this.get(mediaId);
+    if (!handle) {
+      throw new NotFoundError(
+        `Media not found or expired: ${mediaId}. Upload it again with uploadMedia.`,
+      );
+    }
+
+    try {
+      return { data: readFileSync(this.filePath(mediaId)), mediaType: handle.mediaType };
+    } catch {
+      throw new NotFoundError(
+        `Media file is missing: ${mediaId}. Upload it again with uploadMedia.`,
+      );
+    }
+  }
+
+  /**
+   * Decode media given inline, read it from the registry by ID or read it from a file.
+   */
+  resolve(item: MediaInput): MediaData {
+    if (item?.mediaId) {
+      return this.read(item.mediaId);
+    }
+
+    if (typeof item?.path === 'string') {
+      return readMediaFile(item.path, item.mediaType);
+    }
+
+    if (typeof item?.data !== 'string') {
+      throw new ValidationError('Each media item needs a mediaId, a path or data');
+    }
+
+    return { data: decodeBase64(item.data), mediaType: item.mediaType };
+  }
+
+  /**
+   * Describe media items without their data.
+   */
+  describe(media: MediaInput[]): MediaSummary[] {
+    return media.map((item) => {
+      if (item.mediaId) {
+        const handle = this.get(item.mediaId);
+        return handle
+          ? { mediaId: item.mediaId, mediaType: handle.mediaType, size: handle.size }
+          : { mediaId: item.mediaId };
+      }
+
+      if (item.path) {
+        return { path: item.path, mediaType: item.mediaType };
+      }
+
+      return { mediaType: item.mediaType, size: item.data ? decodeBase64(item.data).length : 0 };
+    });
+  }
+
+  /**
+   * Remove expired media, deleting their files, and return the media that is kept.
+   */
+  private removeExpired(handles: MediaHandle[]): MediaHandle[] {
+    return handles.filter((handle) => {
+      if (!this.isExpired(handle)) {
+        return true;
+      }
+      this.deleteFile(handle.mediaId);
+      return false;
+    });
+  }
+
+  /**
+   * Whether media has expired. Pinned media never expires.
+   */
+  private isExpired(handle: MediaHandle): boolean {
+    return !handle.pinnedBy?.length && handle.expiresAt <= new Date().toISOString();
+  }
+
+  /**
+   * Delete the file of stored media, if it exists.
+   */
+  private deleteFile(mediaId: string): void {
+    rmSync(this.filePath(mediaId), { force: true });
+  }
+
+  /**
+   * Path of the file that holds stored media.
+   */
+  private filePath(mediaId: string): string {
+    // Media IDs are generated UUIDs; anything else must not reach the file system
+    if (!/^[0-9a-f-]{36}$/.test(mediaId)) {
+      throw new NotFoundError(`Media not found or expired: ${mediaId}`);
+    }
+    return dataPath(MEDIA_DIR, mediaId);
+  }
+}
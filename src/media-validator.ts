@@ -0,0 +1,357 @@
+import { config, logger } from './config.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Media decoded from a media item, with the type the caller gave if any
+ */
+export interface MediaData {
+  data: Buffer;
+  mediaType?: string;
+}
+
+/**
+ * Media ready to be posted, with its detected type and what was changed to make it fit
+ */
+export interface ValidatedMedia {
+  data: Buffer;
+  mediaType: string;
+  changes?: string[];
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Largest file Twitter accepts per media type
+ */
+const MEDIA_SIZE_LIMITS: Record<string, number> = {
+  'image/jpeg': 5 * MB,
+  'image/png': 5 * MB,
+  'image/webp': 5 * MB,
+  'image/gif': 15 * MB,
+  'video/mp4': 512 * MB,
+};
+
+/**
+ * Longest video Twitter accepts, in seconds
+ */
+const MAX_VIDEO_DURATION = 140;
+
+/**
+ * Media types that count as images in Twitter's per-tweet limits. GIFs are animated and
+ * limited like videos: one per tweet, not mixed with other media.
+ */
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Brands of ISO media files (in the ftyp box) that identify MP4 video
+ */
+const MP4_BRANDS = new Set([
+  'isom',
+  'iso2',
+  'iso3',
+  'iso4',
+  'iso5',
+  'iso6',
+  'mp41',
+  'mp42',
+  'avc1',
+  'M4V ',
+  'M4VH',
+  'M4VP',
+  'mmp4',
+  'msnv',
+  'dash',
+]);
+
+/**
+ * Brands of ISO media files that are not MP4 video, even when they also list an MP4 brand:
+ * QuickTime, audio (M4A, M4B, M4P) and still images (HEIF, HEIC, AVIF)
+ */
+const NON_MP4_BRANDS = new Set([
+  'qt  ',
+  'M4A ',
+  'M4B ',
+  'M4P ',
+  'mif1',
+  'msf1',
+  'heic',
+  'heix',
+  'hevc',
+  'avif',
+  'avis',
+]);
+
+/**
+ * Number of times an oversized image is re-encoded at a smaller size before giving up
+ */
+const MAX_RESIZE_ATTEMPTS = 6;
+
+/**
+ * Detect the format of media from its first bytes, or undefined if it is not supported.
+ */
+export function detectMediaType(data: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => data.toString('latin1', start, end);
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  // ISO media files start with an ftyp box, used by MP4 as well as QuickTime, audio and images
+  if (ascii(4, 8) === 'ftyp' && isMp4Brand(readFileBrands(data))) {
+    return 'video/mp4';
+  }
+  return undefined;
+}
+
+/**
+ * Read the major brand and the compatible brands from the ftyp box at the start of a file.
+ */
+function readFileBrands(data: Buffer): string[] {
+  const end = Math.min(data.readUInt32BE(0), data.length);
+  const brands = [data.toString('latin1', 8, 12)];
+
+  // The minor version (bytes 12 to 16) is followed by the compatible brands
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(data.toString('latin1', offset, offset + 4));
+  }
+  return brands;
+}
+
+/**
+ * Check whether the brands of an ISO media file identify MP4 video.
+ */
+function isMp4Brand(brands: string[]): boolean {
+  return (
+    brands.some((brand) => MP4_BRANDS.has(brand)) &&
+    !brands.some((brand) => NON_MP4_BRANDS.has(brand))
+  );
+}
+
+/**
+ * Find a box of an ISO media file (MP4) between two offsets and return the bounds of its
+ * content.
+ */
+function findBox(
+  data: Buffer,
+  start: number,
+  end: number,
+  type: string,
+): { start: number; end: number } | undefined {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(data.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      // The last box extends to the end of the file
+      size = end - offset;
+    }
+
+    if (size < headerSize) {
+      return undefined;
+    }
+    if (data.toString('latin1', offset + 4, offset + 8) === type) {
+      return { start: offset + headerSize, end: Math.min(offset + size, end) };
+    }
+    offset += size;
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the duration of an MP4 video in seconds from its movie header, or undefined if the
+ * header cannot be found.
+ */
+export function readMp4Duration(data: Buffer): number | undefined {
+  const moov = findBox(data, 0, data.length, 'moov');
+  const mvhd = moov && findBox(data, moov.start, moov.end, 'mvhd');
+  if (!mvhd) {
+    return undefined;
+  }
+
+  try {
+    // Version 1 headers use 64-bit times and duration, version 0 headers 32-bit ones
+    const version = data[mvhd.start];
+    const timescale = data.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+    const duration =
+      version === 1
+        ? Number(data.readBigUInt64BE(mvhd.start + 24))
+        : data.readUInt32BE(mvhd.start + 16);
+
+    return timescale > 0 ? duration / timescale : undefined;
+  } catch {
+    // A truncated header
+    return undefined;
+  }
+}
+
+/**
+ * Format a size in bytes for messages.
+ */
+function formatSize(bytes: number): string {
+  return `${(bytes / MB).toFixed(1)}MB`;
+}
+
+/**
+ * Re-encode an oversized JPEG, PNG or WebP image, downscaling it until it fits the limit.
+ * PNG images without transparency are converted to JPEG, which is much smaller for photos.
+ */
+async function fitImage(
+  item: ValidatedMedia,
+  limit: number,
+  label: string,
+): Promise<ValidatedMedia> {
+  let sharp: typeof import('sharp');
+  try {
+    sharp = (await import('sharp')).default;
+  } catch {
+    throw new ValidationError(
+      `${label} is ${formatSize(item.data.length)}, exceeding the limit of ${formatSize(limit)}. Install the optional sharp package to re-encode oversized images.`,
+    );
+  }
+
+  const { width, hasAlpha } = await sharp(item.data).metadata();
+  if (!width) {
+    throw new ValidationError(`${label} could not be read as an image`);
+  }
+
+  let format: 'jpeg' | 'png' | 'webp' = 'jpeg';
+  if (item.mediaType === 'image/webp') {
+    format = 'webp';
+  } else if (item.mediaType === 'image/png' && hasAlpha) {
+    format = 'png';
+  }
+  const options = format === 'png' ? { compressionLevel: 9, palette: true } : { quality: 85 };
+
+  let targetWidth = width;
+  for (let attempt = 0; attempt < MAX_RESIZE_ATTEMPTS; attempt++) {
+    const data = await sharp(item.data)
+      .resize({ width: targetWidth, withoutEnlargement: true })
+      .toFormat(format, options)
+      .toBuffer();
+
+    if (data.length <= limit) {
+      const mediaType = `image/${format}`;
+      const resized =
+        targetWidth !== width ? `, downscaled from ${width}px to ${targetWidth}px wide` : '';
+      return {
+        data,
+        mediaType,
+        changes: [
+          ...(item.changes ?? []),
+          `Re-encoded from ${item.mediaType} (${formatSize(item.data.length)}) to ${mediaType} (${formatSize(data.length)})${resized} to fit the ${formatSize(limit)} limit`,
+        ],
+      };
+    }
+
+    // The encoded size scales roughly with the number of pixels
+    targetWidth = Math.max(1, Math.floor(targetWidth * Math.sqrt(limit / data.length) * 0.9));
+  }
+
+  throw new ValidationError(
+    `${label} could not be re-encoded to fit the limit of ${formatSize(limit)}`,
+  );
+}
+
+/**
+ * Detect the format of one media item from its bytes and check the length of videos.
+ */
+function identifyMedia(item: MediaData, label: string): ValidatedMedia {
+  const mediaType = detectMediaType(item.data);
+  if (!mediaType) {
+    throw new ValidationError(
+      `${label} is not a supported format. Supported formats are JPEG, PNG, GIF, WebP and MP4.`,
+    );
+  }
+
+  const validated: ValidatedMedia = { data: item.data, mediaType };
+  if (item.mediaType && item.mediaType !== mediaType) {
+    validated.changes = [`Detected ${mediaType} instead of the given ${item.mediaType}`];
+  }
+
+  if (mediaType === 'video/mp4') {
+    const duration = readMp4Duration(item.data);
+    if (duration !== undefined && duration > MAX_VIDEO_DURATION) {
+      throw new ValidationError(
+        `${label} is ${Math.round(duration)} seconds long, exceeding the limit of ${MAX_VIDEO_DURATION} seconds`,
+      );
+    }
+  }
+
+  return validated;
+}
+
+/**
+ * Check a media item against Twitter's size limit for its format, re-encoding oversized
+ * images if MEDIA_RESIZE_IMAGES is set.
+ */
+async function fitSizeLimit(item: ValidatedMedia, label: string): Promise<ValidatedMedia> {
+  const limit = MEDIA_SIZE_LIMITS[item.mediaType];
+  if (item.data.length <= limit) {
+    return item;
+  }
+
+  const message = `${label} is ${formatSize(item.data.length)}, exceeding the ${item.mediaType} limit of ${formatSize(limit)}`;
+  if (item.mediaType === 'video/mp4' || item.mediaType === 'image/gif') {
+    throw new ValidationError(message);
+  }
+  if (!config.MEDIA_RESIZE_IMAGES) {
+    throw new ValidationError(`${message}. Set MEDIA_RESIZE_IMAGES=true to re-encode it to fit.`);
+  }
+
+  const fitted = await fitImage(item, limit, label);
+  logger.info(`${label}: ${fitted.changes?.join('; ')}`);
+  return fitted;
+}
+
+/**
+ * Validate the media of one tweet, detecting each item's format from its bytes.
+ *
+ * Twitter limitations:
+ * - Maximum 4 images per tweet
+ * - Only 1 video or GIF per tweet
+ * - Cannot mix videos or GIFs with other media in the same tweet
+ * - Images up to 5MB, GIFs up to 15MB, videos up to 512MB and 140 seconds
+ */
+export async function validateMedia(media: MediaData[]): Promise<ValidatedMedia[]> {
+  const label = (index: number) => (media.length > 1 ? `Media ${index + 1}` : 'Media');
+  const items = media.map((item, index) => identifyMedia(item, label(index)));
+
+  const imageCount = items.filter((item) => IMAGE_TYPES.includes(item.mediaType)).length;
+  const videoCount = items.filter((item) => item.mediaType === 'video/mp4').length;
+  const gifCount = items.filter((item) => item.mediaType === 'image/gif').length;
+
+  if (videoCount + gifCount > 0 && items.length > 1) {
+    if (imageCount > 0) {
+      throw new ValidationError(
+        `Cannot mix images and ${videoCount > 0 ? 'videos' : 'GIFs'} in the same tweet`,
+      );
+    }
+    if (videoCount > 0 && gifCount > 0) {
+      throw new ValidationError('Cannot mix videos and GIFs in the same tweet');
+    }
+    throw new ValidationError(`Maximum of 1 ${videoCount > 0 ? 'video' : 'GIF'} per tweet allowed`);
+  }
+
+  if (imageCount > 4) {
+    throw new ValidationError('Maximum of 4 images per tweet allowed');
+  }
+
+  const fitted: ValidatedMedia[] = [];
+  for (const [index, item] of items.entries()) {
+    fitted.push(await fitSizeLimit(item, label(index)));
+  }
+  return fitted;
+}
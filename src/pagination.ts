@@ -0,0 +1,134 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * One page of results and the cursor for the next page, or null on the last page
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * A page of results as returned by agent-twitter-client's fetch* methods
+ */
+export interface UpstreamPage<T> {
+  items: T[];
+  next?: string;
+}
+
+/**
+ * Position encoded in an opaque cursor. A cursor is only valid for the same tool and target.
+ */
+interface CursorState {
+  v: 1;
+  source: string;
+  target: string;
+  /**
+   * Twitter's cursor for the page the next results start on, undefined for the first page
+   */
+  cursor?: string;
+  /**
+   * Number of results already returned from that page
+   */
+  offset: number;
+}
+
+/**
+ * Maximum number of Twitter requests made to fill one page
+ */
+const MAX_REQUESTS_PER_PAGE = 10;
+
+/**
+ * Encode a position as an opaque, URL-safe cursor.
+ * Cursors contain everything needed to resume, so they stay valid across restarts and sessions.
+ */
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor, rejecting cursors that are malformed or were issued for another query.
+ */
+function decodeCursor(cursor: string, source: string, target: string): CursorState {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorState;
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (state?.v !== 1 || !Number.isInteger(state.offset) || state.offset < 0) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (state.source !== source || state.target !== target) {
+    throw new ValidationError(`Cursor was not issued for this ${source} query`);
+  }
+
+  return state;
+}
+
+/**
+ * Collect up to `count` results, starting at an optional cursor and following Twitter's
+ * cursors until enough results were fetched. When a Twitter page holds more results than
+ * needed, the returned cursor points into that page, so no results are skipped.
+ *
+ * @param source Name of the tool the cursor belongs to
+ * @param target What is being paged through (e.g. a username or search query)
+ * @param fetchPage Fetches one page from Twitter, starting at Twitter's cursor
+ */
+export async function collectPage<T>(
+  source: string,
+  target: string,
+  count: number,
+  cursor: string | undefined,
+  fetchPage: (upstreamCursor: string | undefined, count: number) => Promise<UpstreamPage<T>>,
+): Promise<Page<T>> {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new ValidationError('count must be a positive integer');
+  }
+
+  const start = cursor ? decodeCursor(cursor, source, target) : { cursor: undefined, offset: 0 };
+  const items: T[] = [];
+  let upstreamCursor = start.cursor;
+  let offset = start.offset;
+
+  for (let request = 0; request < MAX_REQUESTS_PER_PAGE; request++) {
+    const needed = count - items.length;
+    const page = await fetchPage(upstreamCursor, needed + offset);
+    const available = page.items.slice(offset);
+
+    items.push(...available.slice(0, needed));
+
+    if (available.length > needed) {
+      // Resume within the same Twitter page next time
+      return {
+        items,
+        nextCursor: encodeCursor({
+          v: 1,
+          source,
+          target,
+          cursor: upstreamCursor,
+          offset: offset + needed,
+        }),
+      };
+    }
+
+    // An empty page or a repeated cursor means there are no further results
+    if (!page.next || page.next === upstreamCursor || page.items.length === 0) {
+      return { items, nextCursor: null };
+    }
+
+    upstreamCursor = page.next;
+    offset = 0;
+
+    if (items.length >= count) {
+      break;
+    }
+  }
+
+  return {
+    items,
+    nextCursor: encodeCursor({ v: 1, source, target, cursor: upstreamCursor, offset: 0 }),
+  };
+}
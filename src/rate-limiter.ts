@@ -0,0 +1,206 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { setTimeout as sleep } from 'timers/promises';
+
+import { config, logger, type RateLimitCategory } from './config.js';
+import { classifyError, RateLimitError } from './errors.js';
+
+/**
+ * Budget of one rate limit category for one account
+ */
+export interface RateLimitBucket {
+  category: RateLimitCategory;
+  limit: number;
+  remaining: number;
+  windowMs: number;
+  resetAt: string;
+  /**
+   * Whether the remaining budget or reset time was last updated from Twitter's response headers
+   */
+  learned: boolean;
+}
+
+/**
+ * Rate limit category of each scraper operation. Operations that are not listed are not tracked.
+ */
+const OPERATION_CATEGORIES: Record<string, RateLimitCategory> = {
+  fetchSearchTweets: 'search',
+  fetchSearchProfiles: 'search',
+  getProfile: 'profile',
+  getUserIdByScreenName: 'profile',
+  me: 'profile',
+  friendshipsShow: 'profile',
+  fetchProfileFollowers: 'followers',
+  fetchProfileFollowing: 'followers',
+  getTweet: 'tweet',
+  getUserTweets: 'tweet',
+  fetchListTweets: 'tweet',
+  sendTweet: 'post',
+  sendQuoteTweet: 'post',
+  likeTweet: 'post',
+  retweet: 'post',
+  followUser: 'post',
+  unlikeTweet: 'post',
+  unretweet: 'post',
+  unfollowUser: 'post',
+  deleteTweet: 'post',
+};
+
+/**
+ * Category of the scraper operation that is currently running
+ */
+const activeCategory = new AsyncLocalStorage<{ account: string; category: RateLimitCategory }>();
+
+/**
+ * RateLimiter keeps a local budget per account and operation category, so that
+ * exhausted limits fail (or wait) before a request reaches Twitter.
+ *
+ * Budgets are fixed windows configured with RATE_LIMIT_<CATEGORY>. They are
+ * corrected from Twitter's x-rate-limit-* response headers and from 429 responses.
+ */
+export class RateLimiter {
+  private static instance: RateLimiter;
+  private readonly buckets = new Map<string, RateLimitBucket>();
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of RateLimiter.
+   */
+  public static getInstance(): RateLimiter {
+    if (!RateLimiter.instance) {
+      RateLimiter.instance = new RateLimiter();
+    }
+    return RateLimiter.instance;
+  }
+
+  /**
+   * Run a scraper operation against the account's budget.
+   * Throws a RateLimitError without calling Twitter if the budget is exhausted, unless
+   * RATE_LIMIT_MODE=queue and the budget resets within RATE_LIMIT_MAX_WAIT_MS.
+   */
+  async run<T>(account: string, operation: string, call: () => Promise<T>): Promise<T> {
+    const category = OPERATION_CATEGORIES[operation];
+    if (!category) {
+      return call();
+    }
+
+    await this.acquire(account, category);
+
+    try {
+      return await activeCategory.run({ account, category }, call);
+    } catch (error) {
+      const classified = classifyError(error);
+      if (classified instanceof RateLimitError) {
+        this.exhaust(account, category, classified.resetAt);
+      }
+      throw classified;
+    }
+  }
+
+  /**
+   * Update the active operation's budget from a Twitter response.
+   * A 429 response is turned into a RateLimitError so the scraper does not keep retrying it.
+   */
+  observe(response: Response): Response {
+    const active = activeCategory.getStore();
+    if (!active) {
+      return response;
+    }
+
+    const resetSeconds = Number(response.headers.get('x-rate-limit-reset'));
+    const resetAt = resetSeconds > 0 ? new Date(resetSeconds * 1000) : undefined;
+
+    if (response.status === 429) {
+      this.exhaust(active.account, active.category, resetAt);
+      throw new RateLimitError(`Twitter rate limit reached for ${active.category}`, resetAt);
+    }
+
+    const remaining = response.headers.get('x-rate-limit-remaining');
+    if (remaining !== null && resetAt) {
+      const bucket = this.getBucket(active.account, active.category);
+      bucket.remaining = Math.min(bucket.remaining, Number(remaining));
+      bucket.resetAt = resetAt.toISOString();
+      bucket.learned = true;
+    }
+
+    return response;
+  }
+
+  /**
+   * Report the current budget of every category for an account.
+   */
+  status(account: string): RateLimitBucket[] {
+    return (Object.keys(config.RATE_LIMITS) as RateLimitCategory[]).map((category) => ({
+      ...this.getBucket(account, category),
+    }));
+  }
+
+  /**
+   * Take one request from a budget, waiting for the reset in queue mode.
+   */
+  private async acquire(account: string, category: RateLimitCategory): Promise<void> {
+    const bucket = this.getBucket(account, category);
+
+    if (bucket.remaining <= 0) {
+      const resetAt = new Date(bucket.resetAt);
+      const waitMs = resetAt.getTime() - Date.now();
+
+      if (config.RATE_LIMIT_MODE !== 'queue' || waitMs > config.RATE_LIMIT_MAX_WAIT_MS) {
+        throw new RateLimitError(
+          `Local ${category} budget for account "${account}" is exhausted until ${bucket.resetAt}`,
+          resetAt,
+        );
+      }
+
+      logger.warn(`${category} budget for account "${account}" is exhausted, waiting ${waitMs}ms`);
+      await sleep(waitMs);
+      return this.acquire(account, category);
+    }
+
+    bucket.remaining--;
+  }
+
+  /**
+   * Mark a budget as used up until the given reset time (or the end of the window).
+   */
+  private exhaust(account: string, category: RateLimitCategory, resetAt?: Date): void {
+    const bucket = this.getBucket(account, category);
+    bucket.remaining = 0;
+    if (resetAt) {
+      bucket.resetAt = resetAt.toISOString();
+      bucket.learned = true;
+    }
+
+    logger.warn(
+      `Twitter rate limit hit for ${category} on account "${account}" until ${bucket.resetAt}`,
+    );
+  }
+
+  /**
+   * Get a budget, starting a new window if the previous one has ended.
+   */
+  private getBucket(account: string, category: RateLimitCategory): RateLimitBucket {
+    const key = `${account}:${category}`;
+    const { limit, windowMs } = config.RATE_LIMITS[category];
+    let bucket = this.buckets.get(key);
+
+    if (!bucket || Date.parse(bucket.resetAt) <= Date.now()) {
+      bucket = {
+        category,
+        limit,
+        remaining: limit,
+        windowMs,
+        resetAt: new Date(Date.now() + windowMs).toISOString(),
+        learned: false,
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+}
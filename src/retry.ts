@@ -0,0 +1,186 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { setTimeout as sleep } from 'timers/promises';
+
+import { config, logger } from './config.js';
+import {
+  AuthExpiredError,
+  classifyError,
+  RateLimitError,
+  type TwitterError,
+  type TwitterErrorCode,
+} from './errors.js';
+
+/**
+ * A failed attempt that was followed by a retry
+ */
+export interface RetryAttempt {
+  operation: string;
+  attempt: number;
+  code: TwitterErrorCode;
+  error: string;
+  action: 'backoff' | 'reauthenticate';
+  delayMs: number;
+}
+
+/**
+ * How a single operation is retried
+ */
+export interface RetryOptions<T> {
+  /**
+   * Name of the operation, used in logs and result metadata
+   */
+  operation: string;
+
+  /**
+   * Whether transient failures may be retried. Only safe for reads and for writes
+   * that are idempotent or protected by an idempotency key. Defaults to true.
+   */
+  retryTransient?: boolean;
+
+  /**
+   * Log in again after an authentication error. Called at most once per operation.
+   */
+  reauthenticate?: () => Promise<void>;
+
+  /**
+   * For writes that are not idempotent: find the result of an attempt that failed in a way
+   * that leaves open whether it took effect (a network error or a 5xx response). Returns
+   * undefined when it did not. Called before each such retry, and again when a retry is
+   * rejected (for example as a duplicate), so that a write is never repeated blindly.
+   * Receives the error of the failed attempt: for writes that cannot be applied twice, the
+   * error of a rejected retry ("already retweeted") can show that an earlier attempt landed.
+   */
+  findLanded?: (error: TwitterError) => Promise<T | undefined>;
+}
+
+/**
+ * Retries of the tool call that is currently running
+ */
+const retryLog = new AsyncLocalStorage<RetryAttempt[]>();
+
+/**
+ * Run a tool call and collect every retry made while it runs.
+ */
+export async function trackRetries<T>(
+  operation: () => Promise<T>,
+): Promise<{ result: T; retries: RetryAttempt[] }> {
+  const retries: RetryAttempt[] = [];
+  const result = await retryLog.run(retries, operation);
+  return { result, retries };
+}
+
+/**
+ * Exponential backoff with full jitter, capped at RETRY_MAX_DELAY_MS.
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    config.RETRY_MAX_DELAY_MS,
+    config.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run an operation with the shared retry policy:
+ * - authentication errors trigger one re-login, then the operation is repeated
+ * - retryable errors (network failures, 5xx responses, rate limits) are retried with
+ *   exponential backoff and jitter, up to RETRY_MAX_ATTEMPTS attempts in total
+ * - rate limits are waited out when they reset sooner than RETRY_MAX_DELAY_MS
+ *
+ * Errors are rethrown as typed TwitterErrors.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions<T>,
+): Promise<T> {
+  const retryTransient = options.retryTransient ?? true;
+  let reauthenticated = false;
+  // Whether an earlier attempt may have taken effect without a response saying so
+  let ambiguous = false;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (rawError) {
+      const error = classifyError(rawError);
+      const canRetry = attempt < config.RETRY_MAX_ATTEMPTS;
+      let retry: Pick<RetryAttempt, 'action' | 'delayMs'> | null = null;
+
+      if (error instanceof AuthExpiredError && options.reauthenticate && !reauthenticated) {
+        retry = { action: 'reauthenticate', delayMs: 0 };
+      } else if (error.retryable && retryTransient && canRetry) {
+        const delayMs =
+          error instanceof RateLimitError && error.resetAt
+            ? Math.max(0, error.resetAt.getTime() - Date.now())
+            : backoffDelay(attempt);
+
+        if (delayMs <= config.RETRY_MAX_DELAY_MS) {
+          retry = { action: 'backoff', delayMs };
+        }
+      }
+
+      if (!retry) {
+        if (ambiguous && options.findLanded) {
+          const landed = await checkLanded(options, error);
+          if (landed !== undefined) {
+            return landed;
+          }
+        }
+        throw error;
+      }
+
+      const record: RetryAttempt = {
+        operation: options.operation,
+        attempt,
+        code: error.code,
+        error: error.message,
+        ...retry,
+      };
+      retryLog.getStore()?.push(record);
+
+      if (retry.action === 'reauthenticate') {
+        logger.warn(
+          `${options.operation} failed with ${error.code} (attempt ${attempt}), logging in again...`,
+        );
+        reauthenticated = true;
+        await options.reauthenticate?.();
+      } else {
+        logger.warn(
+          `${options.operation} failed with ${error.code} (attempt ${attempt}/${config.RETRY_MAX_ATTEMPTS}), retrying in ${retry.delayMs}ms`,
+        );
+        await sleep(retry.delayMs);
+
+        // A rate limited request was rejected, any other failure may have been applied
+        if (options.findLanded && !(error instanceof RateLimitError)) {
+          ambiguous = true;
+          const landed = await checkLanded(options, error);
+          if (landed !== undefined) {
+            return landed;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a failed write took effect. When the check itself fails, the write is not
+ * retried and the original error is thrown.
+ */
+async function checkLanded<T>(
+  options: RetryOptions<T>,
+  error: TwitterError,
+): Promise<T | undefined> {
+  try {
+    const landed = await options.findLanded?.(error);
+    if (landed !== undefined) {
+      logger.info(`${options.operation} took effect despite the failure, not retrying`);
+    }
+    return landed;
+  } catch (checkError) {
+    logger.warn(
+      `Could not check whether ${options.operation} took effect: ${checkError instanceof Error ? checkError.message : String(checkError)}`,
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,105 @@
+import sodium from 'sodium-native';
+
+/**
+ * Passphrase-encrypted payload, safe to write to disk
+ */
+export interface SealedBox {
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+/**
+ * Key derived from a passphrase, held in locked memory
+ */
+export interface DerivedKey {
+  salt: Buffer;
+  key: Buffer;
+}
+
+/**
+ * Derive a secretbox key from a passphrase (Argon2id) into locked memory.
+ * A random salt is generated unless one is given.
+ * Callers must zero the key with `sodium_memzero` when done.
+ */
+export function deriveKey(passphrase: Buffer, salt?: Buffer): DerivedKey {
+  if (!salt) {
+    salt = Buffer.alloc(sodium.crypto_pwhash_SALTBYTES);
+    sodium.randombytes_buf(salt);
+  }
+
+  const key = sodium.sodium_malloc(sodium.crypto_secretbox_KEYBYTES);
+  sodium.crypto_pwhash(
+    key,
+    passphrase,
+    salt,
+    sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE,
+    sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE,
+    sodium.crypto_pwhash_ALG_DEFAULT,
+  );
+
+  return { salt, key };
+}
+
+/**
+ * Encrypt data with a derived key (XSalsa20-Poly1305).
+ */
+export function sealWithKey(plaintext: Buffer, derived: DerivedKey): SealedBox {
+  const nonce = Buffer.alloc(sodium.crypto_secretbox_NONCEBYTES);
+  sodium.randombytes_buf(nonce);
+
+  const ciphertext = Buffer.alloc(plaintext.length + sodium.crypto_secretbox_MACBYTES);
+  sodium.crypto_secretbox_easy(ciphertext, plaintext, nonce, derived.key);
+
+  return {
+    salt: derived.salt.toString('base64'),
+    nonce: nonce.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a sealed box into locked memory using a derived key.
+ * Throws if the key is wrong or the data was tampered with.
+ */
+export function openWithKey(box: SealedBox, derived: DerivedKey): Buffer {
+  const nonce = Buffer.from(box.nonce, 'base64');
+  const ciphertext = Buffer.from(box.ciphertext, 'base64');
+
+  if (ciphertext.length < sodium.crypto_secretbox_MACBYTES) {
+    throw new Error('Encrypted data is truncated');
+  }
+
+  const plaintext = sodium.sodium_malloc(ciphertext.length - sodium.crypto_secretbox_MACBYTES);
+  if (!sodium.crypto_secretbox_open_easy(plaintext, ciphertext, nonce, derived.key)) {
+    throw new Error('Decryption failed: wrong passphrase or corrupted data');
+  }
+
+  return plaintext;
+}
+
+/**
+ * Encrypt data with a key derived from a passphrase.
+ */
+export function sealBox(plaintext: Buffer, passphrase: Buffer): SealedBox {
+  const derived = deriveKey(passphrase);
+
+  try {
+    return sealWithKey(plaintext, derived);
+  } finally {
+    sodium.sodium_memzero(derived.key);
+  }
+}
+
+/**
+ * Decrypt a sealed box with a key derived from a passphrase.
+ */
+export function openBox(box: SealedBox, passphrase: Buffer): Buffer {
+  const derived = deriveKey(passphrase, Buffer.from(box.salt, 'base64'));
+
+  try {
+    return openWithKey(box, derived);
+  } finally {
+    sodium.sodium_memzero(derived.key);
+  }
+}
@@ -0,0 +1,141 @@
+import sodium from 'sodium-native';
+
+import { logger } from './config.js';
+import {
+  type DerivedKey,
+  deriveKey,
+  openWithKey,
+  type SealedBox,
+  sealWithKey,
+} from './secret-box.js';
+import { JsonFileStore } from './storage.js';
+
+/**
+ * Encrypted session file contents
+ */
+interface StoredSession extends SealedBox {
+  version: 1;
+  savedAt: string;
+}
+
+/**
+ * SessionStore keeps the scraper's cookie jar in an encrypted file so that
+ * restarts can reuse a session instead of performing a full password login.
+ *
+ * The passphrase is only needed once: the derived key is kept in locked memory,
+ * so the session can still be saved after the credentials have been wiped.
+ */
+export class SessionStore {
+  private readonly store: JsonFileStore<StoredSession | null>;
+  private derivedKey: DerivedKey | null = null;
+
+  /**
+   * @param fileName File name inside the data directory
+   * @param getPassphrase Returns the passphrase to encrypt with, or null if none is available.
+   *   The returned buffer is zeroed once the key has been derived from it.
+   */
+  constructor(
+    fileName: string,
+    private readonly getPassphrase: () => Buffer | null,
+  ) {
+    this.store = new JsonFileStore<StoredSession | null>(fileName, () => null);
+  }
+
+  /**
+   * Load the stored cookies, or null if there is no usable session.
+   */
+  load(): string[] | null {
+    try {
+      const session = this.store.read();
+      if (!session) {
+        return null;
+      }
+
+      const key = this.getKey(Buffer.from(session.salt, 'base64'));
+      if (!key) {
+        return null;
+      }
+
+      const plaintext = openWithKey(session, key);
+      let cookies: string[];
+      try {
+        cookies = JSON.parse(plaintext.toString('utf8')) as string[];
+      } finally {
+        sodium.sodium_memzero(plaintext);
+      }
+      logger.info(`Loaded stored Twitter session from ${session.savedAt}`);
+      return cookies;
+    } catch (error) {
+      logger.warn(
+        `Ignoring stored Twitter session: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Encrypt and store the given cookies, replacing any previous session.
+   */
+  save(cookies: string[]): void {
+    const key = this.getKey();
+    if (!key) {
+      logger.warn('No session passphrase available, not persisting the Twitter session');
+      return;
+    }
+
+    const plaintext = Buffer.from(JSON.stringify(cookies), 'utf8');
+    try {
+      const sealed = sealWithKey(plaintext, key);
+      this.store.write({ version: 1, savedAt: new Date().toISOString(), ...sealed });
+      logger.info('Saved Twitter session');
+    } catch (error) {
+      logger.warn(
+        `Failed to save Twitter session: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      sodium.sodium_memzero(plaintext);
+    }
+  }
+
+  /**
+   * Check whether a session has been stored.
+   */
+  exists(): boolean {
+    return this.store.exists();
+  }
+
+  /**
+   * Delete the stored session.
+   */
+  clear(): void {
+    this.store.clear();
+    logger.info('Cleared stored Twitter session');
+  }
+
+  /**
+   * Get the encryption key, deriving it from the passphrase if it is not cached
+   * or if a specific salt is required that differs from the cached key's.
+   */
+  private getKey(salt?: Buffer): DerivedKey | null {
+    if (this.derivedKey && (!salt || salt.equals(this.derivedKey.salt))) {
+      return this.derivedKey;
+    }
+
+    const passphrase = this.getPassphrase();
+    if (!passphrase) {
+      return null;
+    }
+
+    if (this.derivedKey) {
+      sodium.sodium_memzero(this.derivedKey.key);
+      this.derivedKey = null;
+    }
+
+    try {
+      this.derivedKey = deriveKey(passphrase, salt);
+    } finally {
+      sodium.sodium_memzero(passphrase);
+    }
+    return this.derivedKey;
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { hostname } from 'os';
+import { dirname, resolve } from 'path';
+
+import { config } from './config.js';
+
+/**
+ * How long update() waits for another process to release a document's lock
+ */
+const LOCK_TIMEOUT_MS = 15_000;
+
+/**
+ * Age after which a lock is considered left behind by a process that crashed while holding it.
+ * Locks are only held while a document is read and written, which takes milliseconds.
+ */
+const STALE_LOCK_MS = 10_000;
+
+/**
+ * Lock files held by this process, so that a nested update() of the same document does
+ * not wait for itself
+ */
+const heldLocks = new Set<string>();
+
+/**
+ * Shared memory to block on while waiting for a lock
+ */
+const lockWait = new Int32Array(new SharedArrayBuffer(4));
+
+/**
+ * Identifies this server process in claims on shared records, as `<host>:<pid>`
+ */
+export const PROCESS_OWNER = `${hostname()}:${process.pid}`;
+
+/**
+ * Check whether the process that made a claim has stopped, so that the claim can be
+ * recovered. Claims made by this process, by a process that is still running, or on another
+ * host (whose processes cannot be checked) are kept. Claims without an owner are abandoned.
+ */
+export function isClaimAbandoned(owner: string | undefined): boolean {
+  if (!owner) {
+    return true;
+  }
+
+  const separator = owner.lastIndexOf(':');
+  const pid = Number(owner.slice(separator + 1));
+  if (owner.slice(0, separator) !== hostname() || !Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  if (pid === process.pid) {
+    return false;
+  }
+
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
+
+/**
+ * Resolve a path inside the server's local data directory.
+ */
+export function dataPath(...segments: string[]): string {
+  return resolve(config.DATA_DIR, ...segments);
+}
+
+/**
+ * JsonFileStore persists a single JSON document in the local data directory.
+ *
+ * Reads always go to disk so that several server processes sharing a data
+ * directory see each other's changes. Writes are atomic (write to a temporary
+ * file, then rename) and the file is only readable by the current user.
+ * Updates hold a lock file, so that concurrent updates from several processes
+ * are applied one after the other instead of overwriting each other.
+ */
+export class JsonFileStore<T> {
+  private readonly filePath: string;
+
+  /**
+   * @param fileName File name relative to the data directory, or an absolute path
+   * @param defaultValue Produces the value returned while nothing is stored
+   */
+  constructor(
+    fileName: string,
+    private readonly defaultValue: () => T,
+  ) {
+    this.filePath = dataPath(fileName);
+  }
+
+  /**
+   * Read the stored document, or the default value if nothing has been stored yet.
+   */
+  read(): T {
+    if (!this.exists()) {
+      return this.defaultValue();
+    }
+
+    try {
+      return JSON.parse(readFileSync(this.filePath, 'utf8')) as T;
+    } catch (error) {
+      throw new Error(
+        `Failed to read ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Replace the stored document.
+   */
+  write(value: T): void {
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(value, null, 2), { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+  }
+
+  /**
+   * Check whether a document has been stored.
+   */
+  exists(): boolean {
+    return existsSync(this.filePath);
+  }
+
+  /**
+   * Delete the stored document.
+   */
+  clear(): void {
+    rmSync(this.filePath, { force: true });
+  }
+
+  /**
+   * Read, modify and write back the stored document in one step, holding the document's lock.
+   */
+  update<R>(mutate: (value: T) => R): R {
+    return this.withLock(() => {
+      const value = this.read();
+      const result = mutate(value);
+      this.write(value);
+      return result;
+    });
+  }
+
+  /**
+   * Run a function while holding the document's lock file, waiting for other processes to
+   * release it first.
+   */
+  private withLock<R>(run: () => R): R {
+    const lockPath = `${this.filePath}.lock`;
+    if (heldLocks.has(lockPath)) {
+      return run();
+    }
+
+    mkdirSync(dirname(lockPath), { recursive: true, mode: 0o700 });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        closeSync(openSync(lockPath, 'wx', 0o600));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+
+        if (this.isStaleLock(lockPath)) {
+          rmSync(lockPath, { force: true });
+        } else if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for the lock on ${this.filePath}`);
+        } else {
+          Atomics.wait(lockWait, 0, 0, 10);
+        }
+      }
+    }
+
+    heldLocks.add(lockPath);
+    try {
+      return run();
+    } finally {
+      heldLocks.delete(lockPath);
+      rmSync(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Check whether a lock file is older than STALE_LOCK_MS.
+   */
+  private isStaleLock(lockPath: string): boolean {
+    try {
+      return Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS;
+    } catch {
+      // Released while checking: try to take it again
+      return false;
+    }
+  }
+}
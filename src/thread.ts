@@ -0,0 +1,140 @@
+import type { Tweet } from 'agent-twitter-client';
+
+/**
+ * A tweet in a conversation tree
+ */
+export interface ThreadNode<T = Tweet> {
+  id: string;
+  /**
+   * Distance from the root of the conversation (the root has depth 0)
+   */
+  depth: number;
+  author: string | null;
+  inReplyToId: string | null;
+  tweet: T;
+  replies: ThreadNode<T>[];
+}
+
+/**
+ * A conversation reconstructed around one tweet: the chain of tweets it replies to,
+ * up to the root, and the replies below it
+ */
+export interface ConversationThread<T = Tweet> {
+  conversationId: string | null;
+  focalTweetId: string;
+  /**
+   * Number of tweets above the focal tweet
+   */
+  ancestorCount: number;
+  /**
+   * Number of replies below the focal tweet included in the tree
+   */
+  replyCount: number;
+  /**
+   * Whether replies were left out because of the depth or breadth limits
+   */
+  truncated: boolean;
+  root: ThreadNode<T>;
+}
+
+/**
+ * Limits on the replies included below the focal tweet
+ */
+export interface ThreadLimits {
+  /**
+   * Maximum number of reply levels below the focal tweet
+   */
+  maxDepth: number;
+  /**
+   * Maximum number of direct replies kept per tweet, preferring the most liked
+   */
+  maxBreadth: number;
+}
+
+/**
+ * Build a conversation tree from the focal tweet, its ancestors and replies found in the
+ * conversation. The ancestors form a single chain from the root down to the focal tweet;
+ * replies are attached below the focal tweet according to their reply-to links.
+ *
+ * @param ancestors Tweets above the focal tweet, ordered from its parent up to the root
+ * @param replies Other tweets of the conversation, in any order
+ */
+export function buildConversationThread(
+  focal: Tweet & { id: string },
+  ancestors: Tweet[],
+  replies: Tweet[],
+  limits: ThreadLimits,
+): ConversationThread {
+  const repliesByParent = new Map<string, Tweet[]>();
+  const seen = new Set([focal.id, ...ancestors.map((tweet) => tweet.id)]);
+
+  for (const reply of replies) {
+    if (!reply.id || !reply.inReplyToStatusId || seen.has(reply.id)) {
+      continue;
+    }
+    seen.add(reply.id);
+
+    const siblings = repliesByParent.get(reply.inReplyToStatusId) ?? [];
+    siblings.push(reply);
+    repliesByParent.set(reply.inReplyToStatusId, siblings);
+  }
+
+  const chain = [...ancestors].reverse();
+  let replyCount = 0;
+  let truncated = false;
+
+  const toNode = (tweet: Tweet, depth: number): ThreadNode => ({
+    id: tweet.id ?? '',
+    depth,
+    author: tweet.username ?? null,
+    inReplyToId: tweet.inReplyToStatusId ?? null,
+    tweet,
+    replies: [],
+  });
+
+  // Attach replies below a tweet, keeping the most liked ones within the limits
+  const attachReplies = (node: ThreadNode, level: number): void => {
+    const children = repliesByParent.get(node.id) ?? [];
+    if (children.length === 0) {
+      return;
+    }
+
+    if (level > limits.maxDepth) {
+      truncated = true;
+      return;
+    }
+
+    const kept = [...children]
+      .sort((a, b) => (b.likes ?? 0) - (a.likes ?? 0))
+      .slice(0, limits.maxBreadth)
+      .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+    truncated ||= kept.length < children.length;
+
+    for (const child of kept) {
+      const childNode = toNode(child, node.depth + 1);
+      node.replies.push(childNode);
+      replyCount++;
+      attachReplies(childNode, level + 1);
+    }
+  };
+
+  const focalNode = toNode(focal, chain.length);
+  attachReplies(focalNode, 1);
+
+  // Link the ancestor chain from the root down to the focal tweet
+  let root = focalNode;
+  for (let index = chain.length - 1; index >= 0; index--) {
+    const parent = toNode(chain[index], index);
+    parent.replies.push(root);
+    root = parent;
+  }
+
+  return {
+    conversationId: focal.conversationId ?? null,
+    focalTweetId: focal.id,
+    ancestorCount: chain.length,
+    replyCount,
+    truncated,
+    root,
+  };
+}
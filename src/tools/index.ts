@@ -1,5 +1,82 @@
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
+// Shared parameter for selecting which configured account a tool acts as
+const ACCOUNT_PROPERTY = {
+  type: 'string',
+  description: 'Optional name of the configured account to use (default: the default account)',
+};
+
+// Shared parameter for write tools
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description:
+    'If true, validate the action and return a preview of what would be done without executing it',
+};
+
+const IDEMPOTENCY_KEY_PROPERTY = {
+  type: 'string',
+  description:
+    'Optional unique key for this post. Repeating a call with the same key returns the original result instead of posting again, and allows transient failures to be retried automatically',
+};
+
+// Shared parameter for tools that attach media to a tweet
+const MEDIA_PROPERTY = {
+  type: 'array',
+  description:
+    'Array of media objects, each either a mediaId returned by uploadMedia, the path of a file in the directories allowed by MEDIA_ALLOWED_DIRS, or inline data. Supports up to 4 images, OR 1 video, OR 1 GIF (not mixed). Supported formats: JPEG, PNG, WebP, GIF, MP4, detected from the media itself. Images must be under 5MB, GIFs under 15MB and videos under 512MB and 140 seconds.',
+  items: {
+    type: 'object',
+    properties: {
+      mediaId: {
+        type: 'string',
+        description: 'ID of media stored with uploadMedia',
+      },
+      path: {
+        type: 'string',
+        description:
+          'Path of a media file in the directories allowed by MEDIA_ALLOWED_DIRS',
+      },
+      data: {
+        type: 'string',
+        description: 'Base64-encoded media data or data URL',
+      },
+      mediaType: {
+        type: 'string',
+        description:
+          "Optional MIME type of the media: 'image/jpeg', 'image/png', 'image/webp', 'image/gif' or 'video/mp4'. The type detected from the media takes precedence",
+      },
+    },
+  },
+};
+
+// Shared parameter for read tools whose results are cached
+const FRESH_PROPERTY = {
+  type: 'boolean',
+  description: 'If true, bypass the cache and fetch the latest data from Twitter',
+};
+
+// Shared parameters for read tools that return tweets or profiles
+const FORMAT_PROPERTY = {
+  type: 'string',
+  description:
+    "Output format: 'full' (all fields), 'compact' (id, author, text, time, counts and URLs) or 'markdown'",
+  enum: ['full', 'compact', 'markdown'],
+};
+
+const FIELDS_PROPERTY = {
+  type: 'array',
+  items: { type: 'string' },
+  description:
+    'Only return these fields of each result, using dots for nested fields (e.g. ["id", "author.username"]). Not available with the markdown format.',
+};
+
+// Shared parameter for paginated read tools
+const CURSOR_PROPERTY = {
+  type: 'string',
+  description:
+    'The nextCursor returned by a previous call with the same arguments, to get the next page of results',
+};
+
 // Profile Tools
 export const PROFILE_BY_USERNAME_TOOL: Tool = {
   name: 'profileByUsername',
@@ -7,10 +84,14 @@ export const PROFILE_BY_USERNAME_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The Twitter username without @ symbol',
       },
+      fresh: FRESH_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['username'],
   },
@@ -22,10 +103,13 @@ export const MY_PROFILE_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       check: {
         type: 'boolean',
         description: 'Set to true to retrieve the profile',
       },
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['check'],
   },
@@ -37,10 +121,12 @@ export const GET_USER_BIO_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The Twitter username without @ symbol',
       },
+      fresh: FRESH_PROPERTY,
     },
     required: ['username'],
   },
@@ -53,10 +139,14 @@ export const GET_TWEET_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       tweetId: {
         type: 'string',
         description: 'The ID of the tweet to retrieve',
       },
+      fresh: FRESH_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['tweetId'],
   },
@@ -68,6 +158,7 @@ export const GET_USER_TWEETS_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The Twitter username without @ symbol',
@@ -76,6 +167,9 @@ export const GET_USER_TWEETS_TOOL: Tool = {
         type: 'number',
         description: 'The maximum number of tweets to retrieve (default: 20)',
       },
+      cursor: CURSOR_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['username'],
   },
@@ -87,6 +181,7 @@ export const GET_LIST_TWEETS_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       listId: {
         type: 'string',
         description: 'The ID of the Twitter list',
@@ -95,6 +190,8 @@ export const GET_LIST_TWEETS_TOOL: Tool = {
         type: 'number',
         description: 'The maximum number of tweets to retrieve (default: 50)',
       },
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['listId'],
   },
@@ -106,6 +203,7 @@ export const SEND_TWEET_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       text: {
         type: 'string',
         description: 'The text content of the tweet',
@@ -114,23 +212,118 @@ export const SEND_TWEET_TOOL: Tool = {
         type: 'string',
         description: 'Optional tweet ID to reply to',
       },
-      // Note: Media handling is not included here as it would require
-      // binary data handling which is more complex in the MCP context
+      mediaIds: {
+        type: 'array',
+        description:
+          'Optional IDs of media stored with uploadMedia to attach (up to 4 images, OR 1 video, OR 1 GIF)',
+        items: { type: 'string' },
+      },
+      dryRun: DRY_RUN_PROPERTY,
+      idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
     },
     required: ['text'],
   },
 };
 
+export const QUOTE_TWEET_TOOL: Tool = {
+  name: 'quoteTweet',
+  description:
+    "Quote a tweet: post a new tweet with optional media that embeds another tweet. Returns the new tweet's ID and URL.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      text: {
+        type: 'string',
+        description: 'The text content of the tweet',
+      },
+      quotedTweet: {
+        type: 'string',
+        description: 'The ID or URL (e.g. https://x.com/user/status/123) of the tweet to quote',
+      },
+      media: MEDIA_PROPERTY,
+      dryRun: DRY_RUN_PROPERTY,
+      idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
+    },
+    required: ['text', 'quotedTweet'],
+  },
+};
+
+export const SEND_THREAD_TOOL: Tool = {
+  name: 'sendThread',
+  description:
+    'Post a thread of tweets, each replying to the previous one. Returns the ID and URL of every posted tweet. If a tweet fails, the posted ones are kept so the thread can be resumed, or deleted again with onFailure: "rollback".',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      segments: {
+        type: 'array',
+        description: 'The tweets of the thread, in order (at most 25)',
+        items: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'The text content of the tweet',
+            },
+            media: MEDIA_PROPERTY,
+          },
+          required: ['text'],
+        },
+      },
+      inReplyToId: {
+        type: 'string',
+        description: 'Optional tweet ID the first tweet of the thread replies to',
+      },
+      onFailure: {
+        type: 'string',
+        description:
+          "What to do with the tweets posted by this call when a tweet fails: 'resume' keeps them (default), 'rollback' deletes them. Tweets in postedTweetIds are always kept",
+        enum: ['resume', 'rollback'],
+      },
+      postedTweetIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+          'The postedTweetIds returned by an incomplete call with the same segments, to continue the thread from the failed tweet',
+      },
+      dryRun: DRY_RUN_PROPERTY,
+      idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
+    },
+    required: ['segments'],
+  },
+};
+
 export const LIKE_TWEET_TOOL: Tool = {
   name: 'likeTweet',
   description: 'Like a tweet',
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       tweetId: {
         type: 'string',
         description: 'The ID of the tweet to like',
       },
+      dryRun: DRY_RUN_PROPERTY,
+    },
+    required: ['tweetId'],
+  },
+};
+
+export const UNLIKE_TWEET_TOOL: Tool = {
+  name: 'unlikeTweet',
+  description: 'Remove a like from a tweet',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      tweetId: {
+        type: 'string',
+        description: 'The ID of the tweet to unlike',
+      },
+      dryRun: DRY_RUN_PROPERTY,
     },
     required: ['tweetId'],
   },
@@ -142,10 +335,47 @@ export const RETWEET_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       tweetId: {
         type: 'string',
         description: 'The ID of the tweet to retweet',
       },
+      dryRun: DRY_RUN_PROPERTY,
+    },
+    required: ['tweetId'],
+  },
+};
+
+export const UNRETWEET_TOOL: Tool = {
+  name: 'unretweet',
+  description: 'Undo a retweet',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      tweetId: {
+        type: 'string',
+        description: 'The ID of the retweeted tweet (not of the retweet itself)',
+      },
+      dryRun: DRY_RUN_PROPERTY,
+    },
+    required: ['tweetId'],
+  },
+};
+
+export const DELETE_TWEET_TOOL: Tool = {
+  name: 'deleteTweet',
+  description:
+    'Delete a tweet posted by the authenticated account. Tweets of other accounts are rejected.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      tweetId: {
+        type: 'string',
+        description: 'The ID of the tweet to delete',
+      },
+      dryRun: DRY_RUN_PROPERTY,
     },
     required: ['tweetId'],
   },
@@ -158,6 +388,7 @@ export const SEARCH_TWEETS_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       query: {
         type: 'string',
         description: 'The search query',
@@ -171,6 +402,9 @@ export const SEARCH_TWEETS_TOOL: Tool = {
         description: "Search mode: 'top', 'latest', 'photos', or 'videos' (default: 'top')",
         enum: ['top', 'latest', 'photos', 'videos'],
       },
+      cursor: CURSOR_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['query'],
   },
@@ -182,6 +416,7 @@ export const SEARCH_PROFILES_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       query: {
         type: 'string',
         description: 'The search query',
@@ -190,6 +425,9 @@ export const SEARCH_PROFILES_TOOL: Tool = {
         type: 'number',
         description: 'The maximum number of profiles to retrieve (default: 20)',
       },
+      cursor: CURSOR_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['query'],
   },
@@ -202,6 +440,7 @@ export const GET_FOLLOWERS_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The username of the Twitter user',
@@ -210,6 +449,10 @@ export const GET_FOLLOWERS_TOOL: Tool = {
         type: 'number',
         description: 'The number of followers to return',
       },
+      fresh: FRESH_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['username'],
   },
@@ -221,6 +464,7 @@ export const GET_FOLLOWING_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The username of the Twitter user',
@@ -229,6 +473,10 @@ export const GET_FOLLOWING_TOOL: Tool = {
         type: 'number',
         description: 'The number of following to return',
       },
+      fresh: FRESH_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['username'],
   },
@@ -240,10 +488,29 @@ export const FOLLOW_USER_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The Twitter username to follow without @ symbol',
       },
+      dryRun: DRY_RUN_PROPERTY,
+    },
+    required: ['username'],
+  },
+};
+
+export const UNFOLLOW_USER_TOOL: Tool = {
+  name: 'unfollowUser',
+  description: 'Unfollow a Twitter user',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      username: {
+        type: 'string',
+        description: 'The Twitter username to unfollow without @ symbol',
+      },
+      dryRun: DRY_RUN_PROPERTY,
     },
     required: ['username'],
   },
@@ -256,26 +523,51 @@ export const GET_USER_ID_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The Twitter username without @ symbol',
       },
+      fresh: FRESH_PROPERTY,
     },
     required: ['username'],
   },
 };
 
 // Tweet Text Tool
+export const VALIDATE_TWEET_TEXT_TOOL: Tool = {
+  name: 'validateTweetText',
+  description:
+    "Count a tweet's length the way Twitter does (URLs count as 23 characters, emoji and CJK characters as 2, limit 280) and optionally split text that is too long into numbered thread segments",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      text: {
+        type: 'string',
+        description: 'The text to check',
+      },
+      split: {
+        type: 'boolean',
+        description:
+          'If true, also split the text into thread segments on sentence boundaries, ready for sendThread',
+      },
+    },
+    required: ['text'],
+  },
+};
+
 export const GET_TWEET_TEXT_TOOL: Tool = {
   name: 'getTweetText',
   description: 'Get only the text content of a tweet without the full tweet object',
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       tweetId: {
         type: 'string',
         description: 'The ID of the tweet to retrieve text from',
       },
+      fresh: FRESH_PROPERTY,
     },
     required: ['tweetId'],
   },
@@ -284,18 +576,33 @@ export const GET_TWEET_TEXT_TOOL: Tool = {
 // Conversation Thread Tool
 export const GET_CONVERSATION_THREAD_TOOL: Tool = {
   name: 'getConversationThread',
-  description: 'Get a tweet conversation thread including the parent tweet',
+  description:
+    'Get the conversation around a tweet as a tree: the chain of tweets it replies to up to the root, and the replies below it. Each tweet has its depth, author and the ID of the tweet it replies to.',
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       tweetId: {
         type: 'string',
         description: 'The ID of the tweet to get conversation for',
       },
       count: {
         type: 'number',
-        description: 'The maximum number of tweets to retrieve in the thread (default: 20)',
+        description:
+          'The maximum number of tweets to retrieve from the conversation when looking for replies (default: 20)',
+      },
+      maxDepth: {
+        type: 'number',
+        description: 'The maximum number of reply levels below the tweet (default: 5)',
+      },
+      maxBreadth: {
+        type: 'number',
+        description:
+          'The maximum number of direct replies kept per tweet, preferring the most liked (default: 10)',
       },
+      fresh: FRESH_PROPERTY,
+      format: FORMAT_PROPERTY,
+      fields: FIELDS_PROPERTY,
     },
     required: ['tweetId'],
   },
@@ -308,10 +615,31 @@ export const IS_FOLLOWING_TOOL: Tool = {
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       username: {
         type: 'string',
         description: 'The Twitter username to check if following',
       },
+      fresh: FRESH_PROPERTY,
+    },
+    required: ['username'],
+  },
+};
+
+// Relationship Tool
+export const GET_RELATIONSHIP_TOOL: Tool = {
+  name: 'getRelationship',
+  description:
+    'Get the relationship between the authenticated user and another user: following, followed by, blocking, muting and follow request sent',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      username: {
+        type: 'string',
+        description: 'The Twitter username without @ symbol',
+      },
+      fresh: FRESH_PROPERTY,
     },
     required: ['username'],
   },
@@ -320,87 +648,436 @@ export const IS_FOLLOWING_TOOL: Tool = {
 // Media Tools
 export const UPLOAD_MEDIA_TOOL: Tool = {
   name: 'uploadMedia',
-  description: 'Prepare media (image/video) for posting to Twitter',
+  description:
+    'Validate and store media (image/video) for posting to Twitter. Returns a mediaId with the size, type and expiry of the media, and any changes made to fit the limits; pass the mediaId in media items or mediaIds instead of the data.',
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       data: {
         type: 'string',
         description:
-          "Base64-encoded media data or data URL (e.g., 'data:image/jpeg;base64,/9j/4AAQ...')",
+          "Base64-encoded media data or data URL (e.g., 'data:image/jpeg;base64,/9j/4AAQ...'). Either data or path is required",
+      },
+      path: {
+        type: 'string',
+        description:
+          'Path of a media file in the directories allowed by MEDIA_ALLOWED_DIRS, read by the server instead of passing data',
       },
       mediaType: {
         type: 'string',
         description:
-          "MIME type of the media. Supported types: 'image/jpeg', 'image/png', 'image/gif', 'video/mp4'. Videos must be under 512MB.",
+          "Optional MIME type of the media: 'image/jpeg', 'image/png', 'image/webp', 'image/gif' or 'video/mp4'. The type detected from the media takes precedence. Images must be under 5MB, GIFs under 15MB and videos under 512MB and 140 seconds.",
       },
     },
-    required: ['data', 'mediaType'],
   },
 };
 
 export const SEND_TWEET_WITH_MEDIA_TOOL: Tool = {
   name: 'sendTweetWithMedia',
   description:
-    'Post a new tweet with attached media (images/videos). Twitter limitations: max 4 images OR 1 video per tweet (cannot mix types).',
+    'Post a new tweet with attached media (images/videos). Twitter limitations: max 4 images, OR 1 video, OR 1 GIF per tweet (cannot mix types).',
   inputSchema: {
     type: 'object',
     properties: {
+      account: ACCOUNT_PROPERTY,
       text: {
         type: 'string',
         description: 'The text content of the tweet',
       },
-      media: {
-        type: 'array',
-        description:
-          'Array of media objects. Supports up to 4 images OR 1 video (not both). Supported formats: JPG, PNG, GIF, MP4. Videos must be under 512MB.',
-        items: {
-          type: 'object',
-          properties: {
-            data: {
-              type: 'string',
-              description: 'Base64-encoded media data or data URL',
-            },
-            mediaType: {
-              type: 'string',
-              description:
-                "MIME type of the media. Supported types: 'image/jpeg', 'image/png', 'image/gif', 'video/mp4'",
-            },
-          },
-          required: ['data', 'mediaType'],
-        },
-      },
+      media: MEDIA_PROPERTY,
       inReplyToId: {
         type: 'string',
         description: 'Optional tweet ID to reply to',
       },
+      dryRun: DRY_RUN_PROPERTY,
+      idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
     },
     required: ['text', 'media'],
   },
 };
 
-// Export all tools together
-export const twitterTools: Tool[] = [
+// Account Tools
+export const LIST_ACCOUNTS_TOOL: Tool = {
+  name: 'listAccounts',
+  description:
+    'List the configured Twitter accounts with their authentication status and the proxy each one uses',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+export const GET_RATE_LIMIT_STATUS_TOOL: Tool = {
+  name: 'getRateLimitStatus',
+  description:
+    'Show the remaining local rate limit budget and reset time for each operation category (search, profile, followers, tweet, post)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+    },
+  },
+};
+
+// Cache Tools
+export const GET_CACHE_STATS_TOOL: Tool = {
+  name: 'getCacheStats',
+  description:
+    'Show the number of cached profiles, tweets and user IDs, with hit and miss counts and TTLs',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+export const CLEAR_CACHE_TOOL: Tool = {
+  name: 'clearCache',
+  description:
+    'Remove entries from the cache so that the next lookup fetches them from Twitter. Without filters, the whole cache is cleared.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: {
+        type: 'string',
+        description: 'Only clear entries cached for this account (default: all accounts)',
+      },
+      type: {
+        type: 'string',
+        description: 'Only clear entries of this type',
+        enum: ['profile', 'tweet', 'userId', 'relationship'],
+      },
+      key: {
+        type: 'string',
+        description: 'Only clear the entry for this username or tweet ID',
+      },
+    },
+  },
+};
+
+// Session Tools
+export const CLEAR_SESSION_TOOL: Tool = {
+  name: 'clearSession',
+  description:
+    'Delete the stored Twitter session and log out. The next operation performs a fresh login with credentials.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      confirm: {
+        type: 'boolean',
+        description: 'Set to true to clear the session',
+      },
+    },
+    required: ['confirm'],
+  },
+};
+
+// Scheduling Tools
+export const SCHEDULE_TWEET_TOOL: Tool = {
+  name: 'scheduleTweet',
+  description:
+    'Schedule a tweet, with optional media and reply target, to be posted at a future time. Scheduled tweets are kept across restarts.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: ACCOUNT_PROPERTY,
+      text: {
+        type: 'string',
+        description: 'The text content of the tweet',
+      },
+      media: MEDIA_PROPERTY,
+      inReplyToId: {
+        type: 'string',
+        description: 'Optional tweet ID to reply to',
+      },
+      publishAt: {
+        type: 'string',
+        description: 'When to post the tweet, as an ISO 8601 timestamp (e.g. 2025-06-01T09:00:00Z)',
+      },
+      dryRun: DRY_RUN_PROPERTY,
+      idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
+    },
+    required: ['text', 'publishAt'],
+  },
+};
+
+export const LIST_SCHEDULED_TWEETS_TOOL: Tool = {
+  name: 'listScheduledTweets',
+  description:
+    'List scheduled tweets, soonest first, with the posted tweet ID or the error of those already published',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: {
+        type: 'string',
+        description: 'Only list tweets scheduled for this account (default: all accounts)',
+      },
+      status: {
+        type: 'string',
+        description: 'Only list tweets with this status (default: all)',
+        enum: ['scheduled', 'publishing', 'posted', 'failed', 'unconfirmed', 'cancelled'],
+      },
+    },
+  },
+};
+
+export const RESCHEDULE_TWEET_TOOL: Tool = {
+  name: 'rescheduleTweet',
+  description:
+    'Move a scheduled tweet to a new time. Tweets that failed to publish can be rescheduled to try again.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      scheduledTweetId: {
+        type: 'string',
+        description: 'The ID of the scheduled tweet',
+      },
+      publishAt: {
+        type: 'string',
+        description: 'The new time to post the tweet, as an ISO 8601 timestamp',
+      },
+      dryRun: DRY_RUN_PROPERTY,
+    },
+    required: ['scheduledTweetId', 'publishAt'],
+  },
+};
+
+export const CANCEL_SCHEDULED_TWEET_TOOL: Tool = {
+  name: 'cancelScheduledTweet',
+  description: 'Cancel a scheduled tweet so that it is never posted',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      scheduledTweetId: {
+        type: 'string',
+        description: 'The ID of the scheduled tweet',
+      },
+      dryRun: DRY_RUN_PROPERTY,
+    },
+    required: ['scheduledTweetId'],
+  },
+};
+
+// Draft Tools
+const DRAFT_ID_PROPERTY = {
+  type: 'string',
+  description: 'The ID of the draft',
+};
+
+export const CREATE_DRAFT_TOOL: Tool = {
+  name: 'createDraft',
+  description:
+    'Save a tweet as a local draft to work on before posting. Drafts may reply to or quote a tweet and keep a history of their versions.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: {
+        type: 'string',
+        description: 'Optional name of the configured account that will post the draft',
+      },
+      text: {
+        type: 'string',
+        description: 'The text content of the tweet',
+      },
+      media: MEDIA_PROPERTY,
+      inReplyToId: {
+        type: 'string',
+        description: 'Optional tweet ID to reply to',
+      },
+      quotedTweet: {
+        type: 'string',
+        description: 'Optional ID or URL of a tweet to quote',
+      },
+    },
+    required: ['text'],
+  },
+};
+
+export const UPDATE_DRAFT_TOOL: Tool = {
+  name: 'updateDraft',
+  description:
+    'Save a new version of a draft. Only the given fields change; the previous version is kept in the history.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      draftId: DRAFT_ID_PROPERTY,
+      text: {
+        type: 'string',
+        description: 'The new text content of the tweet',
+      },
+      media: {
+        ...MEDIA_PROPERTY,
+        description: 'The new media of the tweet, replacing the current media (empty to remove it)',
+      },
+      inReplyToId: {
+        type: 'string',
+        description: 'The tweet ID to reply to (empty to remove it)',
+      },
+      quotedTweet: {
+        type: 'string',
+        description: 'The ID or URL of a tweet to quote (empty to remove it)',
+      },
+      restoreVersion: {
+        type: 'number',
+        description: 'Start from this earlier version instead of the current one',
+      },
+    },
+    required: ['draftId'],
+  },
+};
+
+export const LIST_DRAFTS_TOOL: Tool = {
+  name: 'listDrafts',
+  description: 'List drafts, most recently updated first',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: {
+        type: 'string',
+        description: 'Only list drafts of this account (default: all accounts)',
+      },
+      status: {
+        type: 'string',
+        description: "Only list drafts with this status (default: 'draft')",
+        enum: ['draft', 'publishing', 'published'],
+      },
+    },
+  },
+};
+
+export const GET_DRAFT_TOOL: Tool = {
+  name: 'getDraft',
+  description: 'Get a draft with the history of its versions',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      draftId: DRAFT_ID_PROPERTY,
+    },
+    required: ['draftId'],
+  },
+};
+
+export const DELETE_DRAFT_TOOL: Tool = {
+  name: 'deleteDraft',
+  description: 'Delete a draft and its history',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      draftId: DRAFT_ID_PROPERTY,
+    },
+    required: ['draftId'],
+  },
+};
+
+export const PUBLISH_DRAFT_TOOL: Tool = {
+  name: 'publishDraft',
+  description:
+    "Post the current version of a draft from the draft's account, with the same validation as sendTweet and quoteTweet. Returns the draft with the posted tweet's ID and URL.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      draftId: DRAFT_ID_PROPERTY,
+      dryRun: DRY_RUN_PROPERTY,
+      idempotencyKey: IDEMPOTENCY_KEY_PROPERTY,
+    },
+    required: ['draftId'],
+  },
+};
+
+// Approval Tools
+export const LIST_PENDING_ACTIONS_TOOL: Tool = {
+  name: 'listPendingActions',
+  description: 'List write actions queued for human approval',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        description: "Only list actions with this status (default: 'pending')",
+        enum: ['pending', 'approved', 'rejected', 'failed'],
+      },
+    },
+  },
+};
+
+export const APPROVE_PENDING_ACTION_TOOL: Tool = {
+  name: 'approvePendingAction',
+  description:
+    'Approve a queued write action and execute it, optionally editing its content first. The edited action is validated with a dry run before it is approved.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      actionId: {
+        type: 'string',
+        description: 'The ID of the pending action',
+      },
+      edits: {
+        type: 'object',
+        description:
+          "Optional overrides of the action's content, applied before execution (e.g., { \"text\": \"Revised tweet\" }): text and mediaIds for sendTweet, segments for sendThread, text and media for the other posting tools. Other actions cannot be edited.",
+      },
+    },
+    required: ['actionId'],
+  },
+};
+
+export const REJECT_PENDING_ACTION_TOOL: Tool = {
+  name: 'rejectPendingAction',
+  description: 'Reject a queued write action so that it is never executed',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      actionId: {
+        type: 'string',
+        description: 'The ID of the pending action',
+      },
+      reason: {
+        type: 'string',
+        description: 'Optional reason for the rejection',
+      },
+    },
+    required: ['actionId'],
+  },
+};
+
+/**
+ * Tools for reviewing the approval queue. Listing is exposed when approval mode is enabled,
+ * approving and rejecting only on reviewer servers.
+ */
+export const approvalTools: Tool[] = [
+  LIST_PENDING_ACTIONS_TOOL,
+  APPROVE_PENDING_ACTION_TOOL,
+  REJECT_PENDING_ACTION_TOOL,
+];
+
+/**
+ * Approval tools that decide whether a queued action runs
+ */
+const approvalDecisionTools: Tool[] = [APPROVE_PENDING_ACTION_TOOL, REJECT_PENDING_ACTION_TOOL];
+
+/**
+ * Read-only tools. These never modify anything on Twitter.
+ */
+export const twitterReadTools: Tool[] = [
   // Profile tools
   PROFILE_BY_USERNAME_TOOL,
   MY_PROFILE_TOOL,
   GET_USER_BIO_TOOL,
   GET_USER_ID_TOOL,
   IS_FOLLOWING_TOOL,
+  GET_RELATIONSHIP_TOOL,
 
   // Tweet tools
   GET_TWEET_TOOL,
   GET_USER_TWEETS_TOOL,
   GET_LIST_TWEETS_TOOL,
-  SEND_TWEET_TOOL,
-  LIKE_TWEET_TOOL,
-  RETWEET_TOOL,
   GET_TWEET_TEXT_TOOL,
   GET_CONVERSATION_THREAD_TOOL,
+  VALIDATE_TWEET_TEXT_TOOL,
 
   // Media tools
   UPLOAD_MEDIA_TOOL,
-  SEND_TWEET_WITH_MEDIA_TOOL,
 
   // Search tools
   SEARCH_TWEETS_TOOL,
@@ -409,5 +1086,156 @@ export const twitterTools: Tool[] = [
   // Relationship tools
   GET_FOLLOWERS_TOOL,
   GET_FOLLOWING_TOOL,
+
+  // Account tools
+  LIST_ACCOUNTS_TOOL,
+  GET_RATE_LIMIT_STATUS_TOOL,
+
+  // Cache tools
+  GET_CACHE_STATS_TOOL,
+  CLEAR_CACHE_TOOL,
+
+  // Scheduling tools
+  LIST_SCHEDULED_TWEETS_TOOL,
+
+  // Draft tools
+  CREATE_DRAFT_TOOL,
+  UPDATE_DRAFT_TOOL,
+  LIST_DRAFTS_TOOL,
+  GET_DRAFT_TOOL,
+  DELETE_DRAFT_TOOL,
+
+  // Approval tools
+  LIST_PENDING_ACTIONS_TOOL,
+];
+
+/**
+ * Write tools. These post, like, retweet or follow (or undo that) on behalf of the authenticated
+ * account.
+ */
+export const twitterWriteTools: Tool[] = [
+  // Tweet tools
+  SEND_TWEET_TOOL,
+  QUOTE_TWEET_TOOL,
+  SEND_THREAD_TOOL,
+  LIKE_TWEET_TOOL,
+  UNLIKE_TWEET_TOOL,
+  RETWEET_TOOL,
+  UNRETWEET_TOOL,
+  DELETE_TWEET_TOOL,
+
+  // Media tools
+  SEND_TWEET_WITH_MEDIA_TOOL,
+
+  // Relationship tools
   FOLLOW_USER_TOOL,
+  UNFOLLOW_USER_TOOL,
+
+  // Scheduling tools
+  SCHEDULE_TWEET_TOOL,
+  RESCHEDULE_TWEET_TOOL,
+  CANCEL_SCHEDULED_TWEET_TOOL,
+
+  // Draft tools
+  PUBLISH_DRAFT_TOOL,
+
+  // Session tools
+  CLEAR_SESSION_TOOL,
+
+  // Approval tools
+  APPROVE_PENDING_ACTION_TOOL,
+  REJECT_PENDING_ACTION_TOOL,
 ];
+
+// Export all tools together
+export const twitterTools: Tool[] = [...twitterReadTools, ...twitterWriteTools];
+
+/**
+ * Tool selection options
+ */
+export interface ToolSelection {
+  /**
+   * Whether to include all Twitter tools (overrides the read/write flags)
+   */
+  includeAllTools?: boolean;
+
+  /**
+   * Whether to include read-only Twitter tools (default: true)
+   */
+  includeReadTools?: boolean;
+
+  /**
+   * Whether to include write Twitter tools (default: true)
+   */
+  includeWriteTools?: boolean;
+
+  /**
+   * If non-empty, only these tools are exposed
+   */
+  allowedTools?: string[];
+
+  /**
+   * Tools that are never exposed, even if allowed above
+   */
+  deniedTools?: string[];
+
+  /**
+   * Whether write actions are queued for approval, which exposes listPendingActions
+   */
+  approvalMode?: boolean;
+
+  /**
+   * Whether the server is used by a person to review queued actions, which exposes the
+   * tools that approve and reject them
+   */
+  approvalReviewer?: boolean;
+}
+
+/**
+ * Check whether a tool modifies state on Twitter.
+ */
+export function isWriteTool(toolName: string): boolean {
+  return twitterWriteTools.some((tool) => tool.name === toolName);
+}
+
+/**
+ * Check whether a write tool can preview its effect with `dryRun` instead of running.
+ */
+export function supportsDryRun(toolName: string): boolean {
+  const tool = twitterWriteTools.find((candidate) => candidate.name === toolName);
+  return tool?.inputSchema.properties?.dryRun !== undefined;
+}
+
+/**
+ * Check whether a tool is part of the approval workflow.
+ */
+export function isApprovalTool(toolName: string): boolean {
+  return approvalTools.some((tool) => tool.name === toolName);
+}
+
+/**
+ * Resolve the tools exposed by a server for the given selection.
+ * The deny list always wins over the allow list and the read/write flags.
+ */
+export function selectTools(selection: ToolSelection): Tool[] {
+  const includeRead = selection.includeAllTools || (selection.includeReadTools ?? true);
+  const includeWrite = selection.includeAllTools || (selection.includeWriteTools ?? true);
+  const allowed = selection.allowedTools?.length ? new Set(selection.allowedTools) : null;
+  const denied = new Set(selection.deniedTools ?? []);
+
+  return [
+    ...(includeRead ? twitterReadTools : []),
+    ...(includeWrite ? twitterWriteTools : []),
+  ]
+    .filter((tool) => {
+      if (!isApprovalTool(tool.name)) {
+        return true;
+      }
+      // Kept off agent-facing servers so that an agent cannot approve its own actions
+      if (approvalDecisionTools.includes(tool)) {
+        return Boolean(selection.approvalReviewer);
+      }
+      return Boolean(selection.approvalMode || selection.approvalReviewer);
+    })
+    .filter((tool) => (!allowed || allowed.has(tool.name)) && !denied.has(tool.name));
+}
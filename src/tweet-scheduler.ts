@@ -0,0 +1,397 @@
+import { randomUUID } from 'crypto';
+
+import { AccountRegistry } from './account-registry.js';
+import { config, logger } from './config.js';
+import { classifyError, NotFoundError, ValidationError } from './errors.js';
+import { type MediaInput, MediaRegistry, type MediaSummary } from './media-registry.js';
+import { isClaimAbandoned, JsonFileStore, PROCESS_OWNER } from './storage.js';
+
+/**
+ * Lifecycle of a scheduled tweet. A tweet is 'unconfirmed' when Twitter accepted it but the
+ * new tweet could not be found, so it may have been posted.
+ */
+export type ScheduledTweetStatus =
+  | 'scheduled'
+  | 'publishing'
+  | 'posted'
+  | 'failed'
+  | 'unconfirmed'
+  | 'cancelled';
+
+/**
+ * A tweet queued for publishing at a later time
+ */
+export interface ScheduledTweet {
+  id: string;
+  account: string;
+  text: string;
+  media?: MediaInput[];
+  inReplyToId?: string;
+  publishAt: string;
+  status: ScheduledTweetStatus;
+  createdAt: string;
+  updatedAt: string;
+  postedTweetId?: string;
+  postedTweetUrl?: string;
+  error?: string;
+  /**
+   * The process publishing the tweet, as `<host>:<pid>`, while it is publishing
+   */
+  claimedBy?: string;
+}
+
+/**
+ * A scheduled tweet as shown to clients: media is reported by ID, type and size, not its data
+ */
+export type ScheduledTweetSummary = Omit<ScheduledTweet, 'media'> & {
+  media?: MediaSummary[];
+};
+
+/**
+ * The content of a tweet to schedule
+ */
+export interface ScheduledTweetContent {
+  text: string;
+  media?: MediaInput[];
+  inReplyToId?: string;
+}
+
+/**
+ * TweetScheduler keeps tweets queued for a later time and publishes them when they are due.
+ * The schedule lives in the local data directory, so scheduled tweets survive restarts.
+ * Each tweet is claimed under the schedule's lock before it is published, so that several
+ * server processes sharing the data directory never publish the same tweet twice. A claim
+ * records the process that made it, and is only recovered once that process has stopped.
+ */
+export class TweetScheduler {
+  private static instance: TweetScheduler;
+  private readonly store = new JsonFileStore<ScheduledTweet[]>('scheduled-tweets.json', () => []);
+  private timer: NodeJS.Timeout | null = null;
+  private publishing = false;
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of TweetScheduler.
+   */
+  public static getInstance(): TweetScheduler {
+    if (!TweetScheduler.instance) {
+      TweetScheduler.instance = new TweetScheduler();
+    }
+    return TweetScheduler.instance;
+  }
+
+  /**
+   * Queue a tweet for publishing at `publishAt`.
+   *
+   * @param dryRun Validate the time and return the scheduled tweet without saving it
+   */
+  schedule(
+    account: string,
+    content: ScheduledTweetContent,
+    publishAt: string,
+    dryRun = false,
+  ): ScheduledTweetSummary {
+    const now = new Date().toISOString();
+    const item: ScheduledTweet = {
+      id: randomUUID(),
+      account,
+      text: content.text,
+      media: content.media,
+      inReplyToId: content.inReplyToId,
+      publishAt: this.parsePublishAt(publishAt),
+      status: 'scheduled',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (dryRun) {
+      return this.summarize(item);
+    }
+
+    // Keep stored media until the tweet is published or cancelled
+    MediaRegistry.getInstance().pin(this.mediaOwner(item.id), item.media);
+    this.store.update((items) => items.push(item));
+    logger.info(`Scheduled tweet ${item.id} for ${item.publishAt}`);
+
+    return this.summarize(item);
+  }
+
+  /**
+   * List scheduled tweets, optionally filtered by status and account, soonest first.
+   * Media data is left out to keep the list small.
+   */
+  list(status?: ScheduledTweetStatus, account?: string): ScheduledTweetSummary[] {
+    return this.store
+      .read()
+      .filter(
+        (item) => (!status || item.status === status) && (!account || item.account === account),
+      )
+      .sort((a, b) => a.publishAt.localeCompare(b.publishAt))
+      .map((item) => this.summarize(item));
+  }
+
+  /**
+   * Move a scheduled tweet to a new time. Failed tweets can be rescheduled to try again.
+   * Unconfirmed tweets cannot, since they may already have been posted.
+   *
+   * @param dryRun Validate the change and return the updated tweet without saving it
+   */
+  reschedule(id: string, publishAt: string, dryRun = false): ScheduledTweetSummary {
+    const parsed = this.parsePublishAt(publishAt);
+
+    return this.transition(
+      id,
+      ['scheduled', 'failed'],
+      (item) => {
+        item.publishAt = parsed;
+        item.status = 'scheduled';
+        delete item.error;
+      },
+      dryRun,
+    );
+  }
+
+  /**
+   * Cancel a scheduled tweet so that it is never published.
+   *
+   * @param dryRun Validate the change and return the updated tweet without saving it
+   */
+  cancel(id: string, dryRun = false): ScheduledTweetSummary {
+    const cancelled = this.transition(
+      id,
+      ['scheduled', 'failed', 'unconfirmed'],
+      (item) => {
+        item.status = 'cancelled';
+      },
+      dryRun,
+    );
+
+    if (!dryRun) {
+      MediaRegistry.getInstance().unpin(this.mediaOwner(id));
+    }
+    return cancelled;
+  }
+
+  /**
+   * Start publishing due tweets in the background, checking every SCHEDULER_INTERVAL_MS.
+   * Nothing is published in dry-run mode; due tweets stay scheduled until a server without
+   * dry-run mode picks them up.
+   */
+  start(): void {
+    if (this.timer || config.SCHEDULER_INTERVAL_MS === 0) {
+      return;
+    }
+
+    if (config.DRY_RUN) {
+      logger.warn('Dry-run mode enabled: scheduled tweets will not be published');
+      return;
+    }
+
+    this.recoverInterrupted();
+
+    this.timer = setInterval(() => void this.publishDue(), config.SCHEDULER_INTERVAL_MS);
+    this.timer.unref();
+    void this.publishDue();
+
+    logger.info(`Tweet scheduler started, checking every ${config.SCHEDULER_INTERVAL_MS}ms`);
+  }
+
+  /**
+   * Stop publishing due tweets.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish every tweet that is due, one at a time, recording the outcome of each.
+   */
+  async publishDue(): Promise<void> {
+    if (this.publishing) {
+      return;
+    }
+    this.publishing = true;
+
+    try {
+      for (let item = this.claimNextDue(); item; item = this.claimNextDue()) {
+        await this.publish(item);
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to read the tweet schedule: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.publishing = false;
+    }
+  }
+
+  /**
+   * Publish one claimed tweet and record the posted tweet or the error.
+   */
+  private async publish(item: ScheduledTweet): Promise<void> {
+    logger.info(`Publishing scheduled tweet ${item.id}`);
+
+    let outcome: Partial<ScheduledTweet>;
+    try {
+      const twitter = AccountRegistry.getInstance().get(item.account);
+      const startedAt = Date.now();
+      const response = item.media?.length
+        ? await twitter.sendTweetWithMedia(item.text, item.media, item.inReplyToId)
+        : await twitter.sendTweet(item.text, undefined, item.inReplyToId);
+      const posted = await twitter.readPost(response, item.text, startedAt, {
+        inReplyToId: item.inReplyToId,
+      });
+
+      if (posted) {
+        outcome = { status: 'posted', postedTweetId: posted.id, postedTweetUrl: posted.url };
+        logger.info(`Published scheduled tweet ${item.id} as ${posted.id}`);
+
+        MediaRegistry.getInstance().unpin(this.mediaOwner(item.id));
+      } else {
+        outcome = {
+          status: 'unconfirmed',
+          error:
+            'The tweet was sent, but the new tweet could not be found. Check the account before scheduling it again.',
+        };
+        logger.warn(`Scheduled tweet ${item.id} was sent but could not be confirmed`);
+      }
+    } catch (error) {
+      outcome = { status: 'failed', error: classifyError(error).message };
+      logger.error(`Failed to publish scheduled tweet ${item.id}: ${outcome.error}`);
+    }
+
+    this.store.update((items) => {
+      const stored = items.find((candidate) => candidate.id === item.id);
+      if (stored) {
+        Object.assign(stored, outcome, { updatedAt: new Date().toISOString() });
+        delete stored.claimedBy;
+      }
+    });
+  }
+
+  /**
+   * Mark the earliest due tweet as publishing and return it, or null if none is due.
+   */
+  private claimNextDue(): ScheduledTweet | null {
+    const now = new Date().toISOString();
+    const isDue = (item: ScheduledTweet) => item.status === 'scheduled' && item.publishAt <= now;
+
+    // Check before updating, so that idle checks do not rewrite the schedule
+    if (!this.store.read().some(isDue)) {
+      return null;
+    }
+
+    return this.store.update((items) => {
+      const due = items.filter(isDue).sort((a, b) => a.publishAt.localeCompare(b.publishAt))[0];
+      if (!due) {
+        return null;
+      }
+
+      due.status = 'publishing';
+      due.claimedBy = PROCESS_OWNER;
+      due.updatedAt = now;
+      return { ...due };
+    });
+  }
+
+  /**
+   * Mark tweets left in the publishing state by a process that stopped mid-publish as
+   * unconfirmed. Whether they were posted is unknown, so they are not published again
+   * automatically. Tweets that another running process is publishing are left alone.
+   */
+  private recoverInterrupted(): void {
+    try {
+      this.store.update((items) => {
+        const interrupted = items.filter(
+          (candidate) =>
+            candidate.status === 'publishing' && isClaimAbandoned(candidate.claimedBy),
+        );
+
+        for (const item of interrupted) {
+          item.status = 'unconfirmed';
+          item.error =
+            'The server stopped while publishing this tweet. Check whether it was posted before scheduling it again.';
+          delete item.claimedBy;
+          item.updatedAt = new Date().toISOString();
+          logger.warn(`Scheduled tweet ${item.id} was interrupted while publishing`);
+        }
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to read the tweet schedule: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Apply a change to a scheduled tweet in one of the allowed states.
+   */
+  private transition(
+    id: string,
+    allowed: ScheduledTweetStatus[],
+    change: (item: ScheduledTweet) => void,
+    dryRun: boolean,
+  ): ScheduledTweetSummary {
+    const apply = (items: ScheduledTweet[]): ScheduledTweetSummary => {
+      const item = items.find((candidate) => candidate.id === id);
+      if (!item) {
+        throw new NotFoundError(`Scheduled tweet not found: ${id}`);
+      }
+
+      if (!allowed.includes(item.status)) {
+        throw new ValidationError(`Scheduled tweet ${id} is already ${item.status}`);
+      }
+
+      change(item);
+      item.updatedAt = new Date().toISOString();
+
+      return this.summarize(item);
+    };
+
+    return dryRun ? apply(this.store.read()) : this.store.update(apply);
+  }
+
+  /**
+   * Owner name under which a scheduled tweet pins its stored media.
+   */
+  private mediaOwner(id: string): string {
+    return `scheduled-tweet:${id}`;
+  }
+
+  /**
+   * Validate a publishing time, which must be an ISO 8601 timestamp in the future.
+   */
+  private parsePublishAt(publishAt: string): string {
+    const time = typeof publishAt === 'string' ? new Date(publishAt) : null;
+    if (!time || Number.isNaN(time.getTime())) {
+      throw new ValidationError(`publishAt must be an ISO 8601 timestamp, got: ${publishAt}`);
+    }
+
+    if (time.getTime() <= Date.now()) {
+      throw new ValidationError(`publishAt must be in the future, got: ${publishAt}`);
+    }
+
+    return time.toISOString();
+  }
+
+  /**
+   * Replace a scheduled tweet's media data with its ID, type and size.
+   */
+  private summarize(item: ScheduledTweet): ScheduledTweetSummary {
+    const { media, ...rest } = item;
+    if (!media) {
+      return rest;
+    }
+
+    return { ...rest, media: MediaRegistry.getInstance().describe(media) };
+  }
+}
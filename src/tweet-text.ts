@@ -0,0 +1,206 @@
+/**
+ * Maximum weighted length of a tweet's text
+ */
+export const MAX_TWEET_LENGTH = 280;
+
+/**
+ * Weight of a URL, which Twitter shortens to a t.co link of this length
+ */
+const URL_LENGTH = 23;
+
+/**
+ * Code point ranges that count as one character. Everything else, including CJK
+ * characters, counts as two (Twitter's "weighted length" rules).
+ */
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff], // Latin, Greek, Cyrillic, Hebrew, Arabic, Indic scripts and more
+  [0x2000, 0x200d], // Spaces and zero-width joiners
+  [0x2010, 0x201f], // Dashes and quotation marks
+  [0x2032, 0x2037], // Primes
+];
+
+/**
+ * URLs with a scheme, and bare domains with a common top-level domain
+ */
+const URL_PATTERN =
+  /\bhttps?:\/\/[^\s]+|\b(?:[a-z0-9-]+\.)+(?:com|org|net|io|co|dev|ai|app|gov|edu|me|ly|tv|info|xyz)\b(?:\/[^\s]*)?/gi;
+
+/**
+ * Punctuation that ends a sentence rather than belonging to the URL before it
+ */
+const URL_TRAILING_PUNCTUATION = /[.,:;!?'")\]]+$/;
+
+/**
+ * Grapheme clusters shown as emoji, which count as two characters however many code points
+ * they are made of
+ */
+const EMOJI_PATTERN =
+  /\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F|\p{Regional_Indicator}/u;
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+const sentences = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+
+/**
+ * Weighted length of a tweet's text and whether it can be posted
+ */
+export interface TweetTextAnalysis {
+  weightedLength: number;
+  maxLength: number;
+  /**
+   * Characters left before the limit, negative when the text is too long
+   */
+  remaining: number;
+  valid: boolean;
+  /**
+   * URLs found in the text, each counted as 23 characters
+   */
+  urls: string[];
+}
+
+/**
+ * Find the URLs in a text with their positions.
+ */
+function findUrls(text: string): Array<{ url: string; start: number; end: number }> {
+  return [...text.matchAll(URL_PATTERN)].map((match) => {
+    const url = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+    return { url, start: match.index, end: match.index + url.length };
+  });
+}
+
+/**
+ * Weight of text without URLs: emoji count as two, other characters by their code point.
+ */
+function weighCharacters(text: string): number {
+  let weight = 0;
+
+  for (const { segment } of graphemes.segment(text)) {
+    if (EMOJI_PATTERN.test(segment)) {
+      weight += 2;
+      continue;
+    }
+
+    for (const character of segment) {
+      const codePoint = character.codePointAt(0) as number;
+      const single = SINGLE_WEIGHT_RANGES.some(
+        ([start, end]) => codePoint >= start && codePoint <= end,
+      );
+      weight += single ? 1 : 2;
+    }
+  }
+
+  return weight;
+}
+
+/**
+ * Weighted length of a text as Twitter counts it: URLs count as 23 characters, emoji and
+ * CJK characters as two and most other characters as one.
+ */
+export function weighTweetText(text: string): number {
+  const normalized = text.normalize('NFC');
+  let weight = 0;
+  let position = 0;
+
+  for (const { start, end } of findUrls(normalized)) {
+    weight += weighCharacters(normalized.slice(position, start)) + URL_LENGTH;
+    position = end;
+  }
+
+  return weight + weighCharacters(normalized.slice(position));
+}
+
+/**
+ * Check a tweet's text against Twitter's length limit.
+ */
+export function analyzeTweetText(text: string): TweetTextAnalysis {
+  const weightedLength = weighTweetText(text);
+
+  return {
+    weightedLength,
+    maxLength: MAX_TWEET_LENGTH,
+    remaining: MAX_TWEET_LENGTH - weightedLength,
+    valid: weightedLength <= MAX_TWEET_LENGTH,
+    urls: findUrls(text.normalize('NFC')).map(({ url }) => url),
+  };
+}
+
+/**
+ * Split a text into pieces of at most `maxLength` weighted characters, breaking between
+ * sentences where possible, then between words, and only within a word when a single word
+ * is too long. Paragraph breaks are kept within a piece.
+ */
+function splitIntoPieces(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const add = (part: string, separator: string): void => {
+    const candidate = current ? `${current}${separator}${part}` : part;
+    if (weighTweetText(candidate) <= maxLength) {
+      current = candidate;
+      return;
+    }
+
+    if (current) {
+      pieces.push(current);
+      current = '';
+    }
+
+    if (weighTweetText(part) <= maxLength) {
+      current = part;
+      return;
+    }
+
+    // A single part is too long: split sentences into words and words into characters
+    const words = part.split(/\s+/);
+    if (words.length > 1) {
+      words.forEach((word) => add(word, ' '));
+      return;
+    }
+
+    for (const { segment } of graphemes.segment(part)) {
+      if (current && weighTweetText(current + segment) > maxLength) {
+        pieces.push(current);
+        current = '';
+      }
+      current += segment;
+    }
+  };
+
+  text.split(/\n\s*\n/).forEach((paragraph, index) => {
+    let separator = index > 0 ? '\n\n' : ' ';
+    for (const { segment } of sentences.segment(paragraph)) {
+      const sentence = segment.trim();
+      if (sentence) {
+        add(sentence, separator);
+        separator = ' ';
+      }
+    }
+  });
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Split a text that is too long for one tweet into thread segments, each ending in its
+ * number (e.g. "1/3"). Text that fits in one tweet is returned as a single, unnumbered segment.
+ */
+export function splitTweetText(text: string): string[] {
+  const trimmed = text.trim();
+  if (weighTweetText(trimmed) <= MAX_TWEET_LENGTH) {
+    return [trimmed];
+  }
+
+  // The numbering takes more room as the number of segments grows, so split until it settles
+  let count = 2;
+  for (;;) {
+    const suffixLength = weighTweetText(` ${count}/${count}`);
+    const pieces = splitIntoPieces(trimmed, MAX_TWEET_LENGTH - suffixLength);
+
+    if (String(pieces.length).length <= String(count).length) {
+      return pieces.map((piece, index) => `${piece} ${index + 1}/${pieces.length}`);
+    }
+    count = pieces.length;
+  }
+}
@@ -0,0 +1,90 @@
+import type { Scraper } from 'agent-twitter-client';
+
+/**
+ * Public bearer token of Twitter's web client. Requests made with it and the session
+ * cookies act as the logged-in user (agent-twitter-client uses the same token).
+ */
+const WEB_BEARER_TOKEN =
+  'AAAAAAAAAAAAAAAAAAAAAFQODgEAAAAAVHTp76lzh3rFzcHbmHVvQxYYpTw%3DckAlMINMjmCwxUcaXbAN4XqJVdgMJaHqNOFgPMK0zN1qLqLQCF';
+
+/**
+ * A failed request to Twitter's web API. Carries the response and body like
+ * agent-twitter-client's own ApiError, so that classifyError can inspect both.
+ */
+export class TwitterApiError extends Error {
+  constructor(
+    readonly response: Response,
+    readonly data: unknown,
+  ) {
+    super(`Response status: ${response.status} ${JSON.stringify(data)}`);
+    this.name = 'TwitterApiError';
+  }
+}
+
+/**
+ * Body of a request to Twitter's web API
+ */
+export interface TwitterApiRequest {
+  method?: 'GET' | 'POST';
+  /**
+   * Sent as application/x-www-form-urlencoded (v1.1 endpoints)
+   */
+  form?: Record<string, string>;
+  /**
+   * Sent as application/json (GraphQL endpoints)
+   */
+  json?: unknown;
+}
+
+/**
+ * Send a request to Twitter's web API with the scraper's session, for endpoints that
+ * agent-twitter-client does not wrap. Uses the global fetch, so the request follows the
+ * account's proxy when made from TwitterIntegration's callScraper.
+ */
+export async function twitterApiRequest<T>(
+  scraper: Scraper,
+  url: string,
+  request: TwitterApiRequest = {},
+): Promise<T> {
+  const cookies = await scraper.getCookies();
+  const csrfToken = cookies.find((cookie) => cookie.key === 'ct0')?.value;
+
+  const headers = new Headers({
+    authorization: `Bearer ${WEB_BEARER_TOKEN}`,
+    cookie: cookies.map((cookie) => cookie.cookieString()).join('; '),
+    'x-twitter-active-user': 'yes',
+    'x-twitter-auth-type': 'OAuth2Session',
+    'x-twitter-client-language': 'en',
+  });
+  if (csrfToken) {
+    headers.set('x-csrf-token', csrfToken);
+  }
+
+  let body: string | undefined;
+  if (request.form) {
+    headers.set('content-type', 'application/x-www-form-urlencoded');
+    body = new URLSearchParams(request.form).toString();
+  } else if (request.json !== undefined) {
+    headers.set('content-type', 'application/json');
+    body = JSON.stringify(request.json);
+  }
+
+  // The fetch wrapper installed by installProxyRouting records the rate limit headers
+  const response = await fetch(url, { method: request.method ?? 'GET', headers, body });
+  const text = await response.text();
+  let data: { errors?: unknown[]; data?: unknown } | string | null = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // Error pages are not always JSON
+    data = text;
+  }
+
+  // GraphQL endpoints report errors with a 200 status and no data
+  const graphqlFailed = typeof data === 'object' && data?.errors?.length && !data.data;
+  if (!response.ok || graphqlFailed) {
+    throw new TwitterApiError(response, data);
+  }
+
+  return data as T;
+}
@@ -1,6 +1,40 @@
 import { type Profile, Scraper, SearchMode, type Tweet } from 'agent-twitter-client';
-
-import { config, logger } from './config.js';
+import type { Dispatcher } from 'undici';
+
+import { ResponseCache } from './cache.js';
+import { config, logger, MAIN_ACCOUNT, type ThreadFailureMode } from './config.js';
+import { CREDENTIAL_NAMES, type CredentialName, CredentialVault } from './credential-vault.js';
+import {
+  AuthExpiredError,
+  classifyError,
+  getErrorCode,
+  NotFoundError,
+  type ToolErrorPayload,
+  type TwitterError,
+  UnavailableError,
+  UpstreamError,
+  ValidationError,
+} from './errors.js';
+import {
+  createProxyDispatcher,
+  installProxyRouting,
+  proxiedFetch,
+  redactProxyUrl,
+  runWithProxy,
+} from './proxy.js';
+import { type MediaHandle, type MediaInput, MediaRegistry } from './media-registry.js';
+import { validateMedia, type ValidatedMedia } from './media-validator.js';
+import { collectPage, type Page } from './pagination.js';
+import { RateLimiter } from './rate-limiter.js';
+import { withRetry } from './retry.js';
+import { analyzeTweetText } from './tweet-text.js';
+import { twitterApiRequest } from './twitter-api.js';
+import { SessionStore } from './session-store.js';
+import {
+  buildConversationThread,
+  type ConversationThread,
+  type ThreadLimits,
+} from './thread.js';
 
 /**
  * Interface for tweet response with nested tweets property
@@ -10,29 +44,351 @@ interface TweetResponse {
 }
 
 /**
- * TwitterIntegration class handles interactions with the Twitter API.
- * It provides a singleton wrapper around the agent-twitter-client library.
+ * Maximum number of tweets posted by one sendThread call
  */
-export class TwitterIntegration {
-  private scraper: Scraper | null = null;
-  private isInitialized = false;
-  private static instance: TwitterIntegration;
+const MAX_THREAD_SEGMENTS = 25;
+
+/**
+ * Maximum number of parent tweets followed when reconstructing a conversation
+ */
+const MAX_THREAD_ANCESTORS = 50;
+
+/**
+ * Default limits on the replies included in a conversation thread
+ */
+const DEFAULT_THREAD_LIMITS: ThreadLimits = { maxDepth: 5, maxBreadth: 10 };
+
+/**
+ * Maximum number of users read from a following or followers list when a relationship
+ * has to be worked out by scanning the lists
+ */
+const MAX_RELATIONSHIP_SCAN = 5000;
+
+/**
+ * Number of the account's latest tweets searched for a post whose request failed
+ */
+const RECENT_POST_SCAN = 20;
+
+/**
+ * Twitter API error code of a retweet of a tweet the account has already retweeted
+ */
+const ALREADY_RETWEETED_ERROR_CODE = 327;
+
+/**
+ * How long before a post's first attempt a tweet found on the timeline may have been
+ * created and still count as that post, allowing for clock skew
+ */
+const RECENT_POST_SKEW_MS = 60 * 1000;
+
+// Twitter web client GraphQL mutations that agent-twitter-client does not wrap
+const GRAPHQL_URL = 'https://twitter.com/i/api/graphql';
+const UNFAVORITE_TWEET_QUERY = 'ZYKSe-w7KEslx3JhSIk5LA/UnfavoriteTweet';
+const DELETE_RETWEET_QUERY = 'iQtK4dl5hBmXewYZuEOKVw/DeleteRetweet';
+const DELETE_TWEET_QUERY = 'VaenaVgh5q5ih7kvyVjgtg/DeleteTweet';
+
+/**
+ * Tweet URLs on twitter.com and x.com, e.g. https://x.com/jack/status/20
+ */
+const TWEET_URL_PATTERN =
+  /^(?:https?:\/\/)?(?:(?:www|mobile)\.)?(?:twitter|x)\.com\/(?:\w+|i\/web)\/status(?:es)?\/(\d+)/i;
+
+/**
+ * Get the ID of a tweet given either its ID or its URL.
+ */
+function parseTweetId(tweet: string): string {
+  const reference = tweet.trim();
+  if (/^\d+$/.test(reference)) {
+    return reference;
+  }
+
+  const match = TWEET_URL_PATTERN.exec(reference);
+  if (!match) {
+    throw new ValidationError(`Not a tweet ID or URL: ${tweet}`);
+  }
+  return match[1];
+}
+
+/**
+ * Normalize the text of a tweet for comparing a post with the tweets on the timeline.
+ * Twitter shortens links, appends media links and escapes HTML entities.
+ */
+function normalizePostText(text: string): string {
+  return text
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Describe validated media for a preview, without its data.
+ */
+function previewMedia(items: ValidatedMedia[]): MediaPreview[] {
+  return items.map((item) => ({
+    mediaType: item.mediaType,
+    size: item.data.length,
+    ...(item.changes && { changes: item.changes }),
+  }));
+}
+
+/**
+ * Media of a previewed tweet, with what the validator changed to make it fit
+ */
+export interface MediaPreview {
+  mediaType: string;
+  size: number;
+  changes?: string[];
+}
+
+/**
+ * Structured preview of a write action, returned instead of executing it in dry-run mode
+ */
+export interface WritePreview {
+  dryRun: true;
+  action:
+    | 'sendTweet'
+    | 'sendTweetWithMedia'
+    | 'quoteTweet'
+    | 'sendThread'
+    | 'likeTweet'
+    | 'retweet'
+    | 'followUser'
+    | 'unlikeTweet'
+    | 'unretweet'
+    | 'unfollowUser'
+    | 'deleteTweet';
+  text?: string;
+  inReplyToId?: string;
+  quotedTweetId?: string;
+  media?: MediaPreview[];
+  segments?: Array<{ text: string; media?: MediaPreview[] }>;
+  /**
+   * IDs of segments posted by an earlier sendThread call, which are not posted again
+   */
+  postedTweetIds?: string[];
+  target?: {
+    tweetId?: string;
+    userId?: string;
+    username?: string;
+    text?: string;
+  };
+}
+
+/**
+ * A tweet posted by the authenticated user
+ */
+export interface PostedTweet {
+  id: string;
+  url: string;
+  quotedTweetId?: string;
+}
+
+/**
+ * One tweet of a thread to post
+ */
+export interface ThreadSegment {
+  text: string;
+  media?: MediaInput[];
+}
+
+/**
+ * Outcome of posting one segment of a thread
+ */
+export interface ThreadSegmentResult {
+  index: number;
+  /**
+   * 'posted' (now or by an earlier call), 'failed', 'unconfirmed' (sent, but the new tweet
+   * could not be found, so it may have been posted), 'not_posted' (after a failed segment)
+   * or 'deleted' (rolled back)
+   */
+  status: 'posted' | 'failed' | 'unconfirmed' | 'not_posted' | 'deleted';
+  id?: string;
+  url?: string;
+  error?: ToolErrorPayload;
+}
+
+/**
+ * Outcome of posting a thread
+ */
+export interface ThreadResult {
+  /**
+   * 'posted' when every segment was posted, 'incomplete' when a segment failed and the
+   * posted ones were kept, 'rolled_back' when they were deleted again and 'rollback_failed'
+   * when some of them could not be deleted
+   */
+  status: 'posted' | 'incomplete' | 'rolled_back' | 'rollback_failed';
+  segments: ThreadSegmentResult[];
+  /**
+   * IDs of the posted segments, to pass back as postedTweetIds with the same segments to
+   * continue from the failed segment. Set when the thread is incomplete, and when a resumed
+   * thread was rolled back, leaving the segments posted by earlier calls.
+   */
+  postedTweetIds?: string[];
+}
 
+/**
+ * Options of sendThread
+ */
+export interface SendThreadOptions {
+  /**
+   * Tweet the first segment replies to
+   */
+  inReplyToId?: string;
+  onFailure?: ThreadFailureMode;
+  /**
+   * IDs of the segments posted by an earlier, incomplete call, in order. These segments are
+   * skipped and the thread continues below the last of them. A rollback leaves them posted.
+   */
+  postedTweetIds?: string[];
   /**
-   * Private constructor to enforce singleton pattern.
+   * Retry transient failures, only safe when protected by an idempotency key
    */
-  private constructor() {
-    // Private constructor to enforce singleton pattern
+  retryTransient?: boolean;
+}
+
+/**
+ * Response of the CreateTweet mutation (only the fields used)
+ */
+interface CreateTweetResponse {
+  errors?: unknown[];
+  data?: {
+    create_tweet?: {
+      tweet_results?: {
+        result?: {
+          rest_id?: string;
+          core?: { user_results?: { result?: { legacy?: { screen_name?: string } } } };
+        };
+      };
+    };
+  };
+}
+
+/**
+ * Read the ID and URL of a new tweet from the response of sendTweet or sendTweetWithMedia.
+ */
+export async function readPostedTweet(response: Response): Promise<PostedTweet> {
+  const body = (await response.json()) as CreateTweetResponse;
+  const result = body.data?.create_tweet?.tweet_results?.result;
+  if (!result?.rest_id) {
+    throw new Error(`Response errors: ${JSON.stringify(body.errors ?? body)}`);
   }
 
+  const username = result.core?.user_results?.result?.legacy?.screen_name;
+  return {
+    id: result.rest_id,
+    url: username
+      ? `https://twitter.com/${username}/status/${result.rest_id}`
+      : `https://twitter.com/i/web/status/${result.rest_id}`,
+  };
+}
+
+/**
+ * Build a CreateTweet response for a tweet found on the timeline, so that a post that took
+ * effect despite a failed request is read like any other.
+ */
+function createTweetResponse(tweet: Tweet): Response {
+  const body: CreateTweetResponse = {
+    data: {
+      create_tweet: {
+        tweet_results: {
+          result: {
+            rest_id: tweet.id,
+            core: { user_results: { result: { legacy: { screen_name: tweet.username } } } },
+          },
+        },
+      },
+    },
+  };
+  return new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+}
+
+/**
+ * Relationship between the authenticated user and another user.
+ * Fields are null when they could not be determined.
+ */
+export interface Relationship {
+  username: string;
+  userId: string;
+  following: boolean | null;
+  followedBy: boolean | null;
+  blocking: boolean | null;
+  muting: boolean | null;
+  followRequestSent: boolean | null;
+  /**
+   * 'lookup' when Twitter reported the relationship directly, 'scan' when it was worked out
+   * from the authenticated user's following and followers lists
+   */
+  method: 'lookup' | 'scan';
+}
+
+/**
+ * Response of the friendships/show endpoint (only the fields used)
+ */
+interface FriendshipResponse {
+  relationship: {
+    source: {
+      following?: boolean;
+      followed_by?: boolean;
+      blocking?: boolean;
+      muting?: boolean;
+      following_requested?: boolean;
+    };
+  };
+}
+
+/**
+ * Authentication status of an account
+ */
+export interface AccountStatus {
+  account: string;
+  initialized: boolean;
+  loggedIn: boolean;
+  username?: string;
+  hasCredentials: boolean;
+  hasStoredSession: boolean;
+  proxy: string | null;
+}
+
+/**
+ * TwitterIntegration class handles interactions with the Twitter API.
+ * It wraps the agent-twitter-client library for a single Twitter account;
+ * instances are created and looked up through the AccountRegistry.
+ */
+export class TwitterIntegration {
+  private scraper: Scraper | null = null;
+  private isInitialized = false;
+  private readonly sessionStore: SessionStore;
+  private readonly proxyUrl?: string;
+  private readonly proxyDispatcher?: Dispatcher;
+  private myUserId?: string;
+
   /**
-   * Get the singleton instance of TwitterIntegration.
+   * @param account Name of the configured account this instance logs in as
    */
-  public static getInstance(): TwitterIntegration {
-    if (!TwitterIntegration.instance) {
-      TwitterIntegration.instance = new TwitterIntegration();
+  constructor(readonly account: string) {
+    // Also needed without a proxy, to observe the rate limits of the global fetch's responses
+    installProxyRouting();
+
+    this.proxyUrl = config.ACCOUNT_PROXY_URLS[account];
+    if (this.proxyUrl) {
+      this.proxyDispatcher = createProxyDispatcher(this.proxyUrl);
+      logger.info(`Routing account "${account}" through proxy ${redactProxyUrl(this.proxyUrl)}`);
     }
-    return TwitterIntegration.instance;
+
+    const fileName = account === MAIN_ACCOUNT ? 'session.json' : `session-${account}.json`;
+
+    // The session store zeroes the passphrase buffer once it has derived its key
+    this.sessionStore = new SessionStore(fileName, () => {
+      // Without an explicit secret, the session is encrypted with the account credentials
+      const vault = CredentialVault.getInstance();
+      const password = vault.get(account, 'TWITTER_PASSWORD');
+      const secret =
+        vault.get(account, 'SESSION_SECRET') ||
+        (password ? `${vault.get(account, 'TWITTER_USERNAME')}:${password}` : '');
+      return secret ? Buffer.from(secret, 'utf8') : null;
+    });
   }
 
   /**
@@ -47,12 +403,32 @@ export class TwitterIntegration {
 
     try {
       // Create a new Scraper instance
-      this.scraper = new Scraper();
+      this.scraper = this.createScraper();
+
+      // Reuse the stored session if it is still valid, avoiding a full login
+      if (await this.restoreSession()) {
+        this.isInitialized = true;
+        this.releaseCredentials();
+        logger.info('Twitter client initialized from stored session.');
+        return;
+      }
 
       // Get credentials securely
       logger.info('Retrieving Twitter credentials...');
-      const credentials = config;
-      logger.info(`Retrieved credentials for user: ${credentials.TWITTER_USERNAME}, ${credentials.TWOFACTOR}`);
+      const vault = CredentialVault.getInstance();
+      if (vault.isWiped(this.account)) {
+        throw new AuthExpiredError(
+          'Credentials were wiped from memory after the first login. Restart the server to log in again, or set RETAIN_CREDENTIALS=true.',
+          { retryable: false },
+        );
+      }
+
+      const credentials = Object.fromEntries(
+        CREDENTIAL_NAMES.map((name) => [name, vault.get(this.account, name)]),
+      ) as Partial<Record<CredentialName, string>>;
+      logger.info(
+        `Retrieved credentials for account "${this.account}", user: ${credentials.TWITTER_USERNAME}`,
+      );
 
       // Log in with credentials
       logger.info('Logging in to Twitter...');
@@ -87,15 +463,18 @@ export class TwitterIntegration {
           logger.error(
             `API authentication failed: ${error instanceof Error ? error.message : String(error)}. Twitter auth occationally fails, you often just need to retry starting the server. `,
           );
-          throw new Error(
+          throw new AuthExpiredError(
             'Twitter API authentication failed. Twitter auth occationally fails, you often just need to retry starting the server.',
+            { cause: error },
           );
         }
       } else {
         // For basic authentication, ensure we have the minimum required credentials
         if (!credentials.TWITTER_USERNAME) {
           logger.error('TWITTER_USERNAME is required for authentication');
-          throw new Error('Twitter authentication failed: Missing username');
+          throw new AuthExpiredError('Twitter authentication failed: Missing username', {
+            retryable: false,
+          });
         }
 
         try {
@@ -110,19 +489,20 @@ export class TwitterIntegration {
           logger.error(
             `Failed to log in to Twitter with basic credentials: ${error instanceof Error ? error.message : String(error)}`,
           );
-          throw new Error('Twitter basic authentication failed');
+          throw new AuthExpiredError('Twitter basic authentication failed', { cause: error });
         }
       }
 
+      await this.persistSession();
+
       this.isInitialized = true;
+      this.releaseCredentials();
       logger.info('Twitter client initialized successfully.');
     } catch (error) {
       logger.error(
         `Failed to initialize Twitter client: ${error instanceof Error ? error.message : String(error)}`,
       );
-      throw new Error(
-        `Twitter client initialization failed: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      throw classifyError(error, AuthExpiredError);
     }
   }
 
@@ -138,10 +518,11 @@ export class TwitterIntegration {
 
     try {
       // Check if we're still logged in
-      const isLoggedIn = await this.scraper.isLoggedIn();
+      const isLoggedIn = await this.callScraper('isLoggedIn', (scraper) => scraper.isLoggedIn());
 
       if (!isLoggedIn) {
         logger.info('Twitter session expired, re-authenticating...');
+        this.isInitialized = false;
         await this.initialize();
       }
 
@@ -150,69 +531,75 @@ export class TwitterIntegration {
       logger.error(
         `Authentication check failed: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return false;
+      throw classifyError(error);
     }
   }
 
   /**
    * Get a Twitter profile by username.
+   *
+   * @param fresh Skip the cache and fetch the profile from Twitter
    */
-  async getProfileByUsername(username: string): Promise<Profile | null> {
+  async getProfileByUsername(username: string, fresh = false): Promise<Profile> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const profileResult = await this.scraper.getProfile(username);
-      return profileResult;
+      return await this.fetchProfile(username, fresh);
     } catch (error) {
       logger.error(
         `Failed to get profile for ${username}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return null;
+      throw classifyError(error);
     }
   }
 
   /**
    * Get the authenticated user's profile.
    */
-  async getMyProfile(): Promise<Profile | null> {
+  async getMyProfile(): Promise<Profile> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const profile = await this.scraper.me();
-      return profile || null;
+      const profile = await this.callScraper('me', (scraper) => scraper.me());
+      if (!profile) {
+        throw new AuthExpiredError('Not logged in to Twitter');
+      }
+      return profile;
     } catch (error) {
       logger.error(
         `Failed to get current user profile: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return null;
+      throw classifyError(error);
     }
   }
 
   /**
    * Get a specific tweet by ID.
+   *
+   * @param fresh Skip the cache and fetch the tweet from Twitter
    */
-  async getTweet(tweetId: string): Promise<Tweet | null> {
+  async getTweet(tweetId: string, fresh = false): Promise<Tweet> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      return await this.scraper.getTweet(tweetId);
+      return await this.fetchTweet(tweetId, fresh);
     } catch (error) {
       logger.error(
         `Failed to get tweet ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return null;
+      throw classifyError(error);
     }
   }
 
@@ -223,10 +610,12 @@ export class TwitterIntegration {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
-    const tweetsResult = await this.scraper.fetchListTweets(listId, count);
+    const tweetsResult = await this.callScraper('fetchListTweets', (scraper) =>
+      scraper.fetchListTweets(listId, count),
+    );
 
     // Handle different possible return structures from the underlying library
     let finalTweets: Tweet[] = [];
@@ -244,7 +633,7 @@ export class TwitterIntegration {
       const errorMessage = `Unexpected response format or empty result from fetchListTweets for list ${listId}`;
       logger.error(errorMessage, tweetsResult);
       // Instead of returning [], throw an error to be caught by the main handler
-      throw new Error(errorMessage);
+      throw new UpstreamError(errorMessage);
     }
 
     // Workaround: Truncate the results to the requested count as the library might not respect it
@@ -259,60 +648,264 @@ export class TwitterIntegration {
   }
 
   /**
-   * Get tweets from a user.
+   * Get a page of tweets from a user.
+   *
+   * @param cursor Cursor returned with the previous page, to continue from there
    */
-  async getUserTweets(username: string, count = 20): Promise<Tweet[]> {
+  async getUserTweets(username: string, count = 20, cursor?: string): Promise<Page<Tweet>> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const tweetGenerator = this.scraper.getTweets(username, count);
-      const tweets: Tweet[] = [];
-
-      // Consume the generator up to the count
-      for await (const tweet of tweetGenerator) {
-        tweets.push(tweet);
-        if (tweets.length >= count) break;
-      }
+      const userId = await this.resolveUserId(username, false);
+      const target = username.toLowerCase();
 
-      return tweets;
+      return await collectPage('getUserTweets', target, count, cursor, (next, max) =>
+        this.callScraper('getUserTweets', async (scraper) => {
+          const page = await scraper.getUserTweets(userId, max, next);
+          return { items: page.tweets, next: page.next };
+        }),
+      );
     } catch (error) {
       logger.error(
         `Failed to get tweets for ${username}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return [];
+      throw classifyError(error);
     }
   }
 
   /**
    * Send a tweet.
    * Note: mediaItems should be properly formatted as required by agent-twitter-client
+   *
+   * @param retryTransient Retry transient failures, only safe when protected by an idempotency key
    */
   async sendTweet(
     text: string,
     mediaItems?: Array<{ data: Buffer; mediaType: string }>,
     inReplyToId?: string,
+    retryTransient = false,
   ): Promise<Response> {
+    this.validateTweetText(text, mediaItems?.length ?? 0);
+
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
+      // Posting is not idempotent: transient failures are only retried when a key protects it,
+      // and only after checking that the failed attempt did not post the tweet after all
+      const startedAt = Date.now();
+      const findLanded = async () => {
+        const tweet = await this.findRecentPost(text, startedAt, { inReplyToId });
+        return tweet && createTweetResponse(tweet);
+      };
+
       if (inReplyToId) {
-        return await this.scraper.sendTweet(text, inReplyToId, mediaItems);
+        const response = await this.callScraper(
+          'sendTweet',
+          (scraper) => scraper.sendTweet(text, inReplyToId, mediaItems),
+          retryTransient,
+          findLanded,
+        );
+        // The parent's reply count has changed
+        ResponseCache.getInstance().invalidate({ type: 'tweet', key: inReplyToId });
+        return response;
       } else {
-        return await this.scraper.sendTweet(text, undefined, mediaItems);
+        return await this.callScraper(
+          'sendTweet',
+          (scraper) => scraper.sendTweet(text, undefined, mediaItems),
+          retryTransient,
+          findLanded,
+        );
       }
     } catch (error) {
       logger.error(
         `Failed to send tweet: ${error instanceof Error ? error.message : String(error)}`,
       );
-      throw error;
+      throw classifyError(error);
+    }
+  }
+
+  /**
+   * Quote a tweet: post a new tweet, with optional media, that embeds another tweet.
+   * The quoted tweet is looked up first, so tweets that are deleted or not visible to the
+   * account are rejected before anything is posted.
+   *
+   * @param quotedTweet ID or URL of the tweet to quote
+   * @param retryTransient Retry transient failures, only safe when protected by an idempotency key
+   */
+  async quoteTweet(
+    text: string,
+    quotedTweet: string,
+    media?: MediaInput[],
+    retryTransient = false,
+  ): Promise<PostedTweet> {
+    await this.ensureAuthenticated();
+
+    if (!this.scraper) {
+      throw new AuthExpiredError('Twitter client not initialized.');
+    }
+
+    try {
+      const mediaItems = media ? await this.prepareMedia(media) : [];
+      this.validateTweetText(text, mediaItems.length);
+
+      const quoted = await this.fetchTweet(parseTweetId(quotedTweet), true);
+      const quotedTweetId = quoted.id as string;
+
+      logger.info(
+        `Quoting tweet ${quotedTweetId}: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`,
+      );
+
+      // Posting is not idempotent: transient failures are only retried when a key protects it,
+      // and only after checking that the failed attempt did not post the tweet after all
+      const startedAt = Date.now();
+      const response = await this.callScraper(
+        'sendQuoteTweet',
+        (scraper) =>
+          scraper.sendQuoteTweet(
+            text,
+            quotedTweetId,
+            mediaItems.length > 0 ? { mediaData: mediaItems } : undefined,
+          ),
+        retryTransient,
+        async () => {
+          const tweet = await this.findRecentPost(text, startedAt, { quotedTweetId });
+          return tweet && createTweetResponse(tweet);
+        },
+      );
+      // The quoted tweet's quote count has changed
+      ResponseCache.getInstance().invalidate({ type: 'tweet', key: quotedTweetId });
+
+      const posted = await this.readPost(response, text, startedAt, { quotedTweetId });
+      if (!posted) {
+        throw new UpstreamError(
+          'The quote tweet was sent, but the new tweet could not be found. Check whether it was posted before trying again.',
+        );
+      }
+      return { ...posted, quotedTweetId };
+    } catch (error) {
+      logger.error(
+        `Failed to quote tweet ${quotedTweet}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw classifyError(error);
+    }
+  }
+
+  /**
+   * Post a thread: each segment is posted as a reply to the previous one.
+   * All segments are validated before the first one is posted. When a segment fails, the
+   * already posted segments are either kept, so that a later call with postedTweetIds can
+   * continue from the failed segment, or deleted again, depending on `onFailure`. A rollback
+   * only deletes the segments posted by this call, not those of earlier calls being resumed.
+   */
+  async sendThread(
+    segments: ThreadSegment[],
+    options: SendThreadOptions = {},
+  ): Promise<ThreadResult> {
+    const onFailure = options.onFailure ?? config.THREAD_FAILURE_MODE;
+    const prepared = await this.prepareThread(segments, options.postedTweetIds);
+    const postedTweetIds = prepared.postedTweetIds;
+
+    const results: ThreadSegmentResult[] = postedTweetIds.map((id, index) => ({
+      index,
+      status: 'posted',
+      id,
+      url: `https://twitter.com/i/web/status/${id}`,
+    }));
+    let inReplyToId = postedTweetIds[postedTweetIds.length - 1] ?? options.inReplyToId;
+
+    logger.info(
+      `Posting thread of ${segments.length} tweets${postedTweetIds.length > 0 ? `, resuming at tweet ${postedTweetIds.length + 1}` : ''}`,
+    );
+
+    for (let index = postedTweetIds.length; index < prepared.segments.length; index++) {
+      const { text, mediaItems } = prepared.segments[index];
+      let status: 'failed' | 'unconfirmed' = 'failed';
+
+      try {
+        const startedAt = Date.now();
+        const response = await this.sendTweet(
+          text,
+          mediaItems.length > 0 ? mediaItems : undefined,
+          inReplyToId,
+          options.retryTransient,
+        );
+        const posted = await this.readPost(response, text, startedAt, { inReplyToId });
+        if (!posted) {
+          status = 'unconfirmed';
+          throw new UpstreamError(
+            `Tweet ${index + 1} of the thread was sent, but the new tweet could not be found. Check whether it was posted before continuing the thread.`,
+          );
+        }
+
+        results.push({ index, status: 'posted', id: posted.id, url: posted.url });
+        inReplyToId = posted.id;
+      } catch (error) {
+        const classified = classifyError(error);
+        logger.error(`Failed to post tweet ${index + 1} of thread: ${classified.message}`);
+
+        results.push({ index, status, error: classified.toPayload() });
+        for (let rest = index + 1; rest < prepared.segments.length; rest++) {
+          results.push({ index: rest, status: 'not_posted' });
+        }
+
+        const posted = results.filter((result) => result.status === 'posted');
+        if (onFailure === 'rollback' && posted.length > postedTweetIds.length) {
+          return this.rollbackThread(results, postedTweetIds);
+        }
+
+        return {
+          status: 'incomplete',
+          segments: results,
+          postedTweetIds: posted.map((result) => result.id as string),
+        };
+      }
+    }
+
+    return { status: 'posted', segments: results };
+  }
+
+  /**
+   * Read the tweet created by a post that was sent. When the response has no tweet ID but
+   * does not report an error either, the tweet may still have been posted, so it is looked
+   * up on the account's timeline rather than taken as failed.
+   *
+   * @param startedAt When the post was first attempted
+   * @param target The tweet the post replies to or quotes
+   * @returns The posted tweet, or undefined if it could not be found
+   */
+  async readPost(
+    response: Response,
+    text: string,
+    startedAt: number,
+    target: { inReplyToId?: string; quotedTweetId?: string } = {},
+  ): Promise<PostedTweet | undefined> {
+    try {
+      return await readPostedTweet(response);
+    } catch (error) {
+      const classified = classifyError(error);
+      if (classified.code !== 'UPSTREAM') {
+        // Twitter rejected the tweet, for example as a duplicate
+        throw classified;
+      }
+
+      logger.warn(`Could not read the posted tweet, looking it up: ${classified.message}`);
+      try {
+        const tweet = await this.findRecentPost(text, startedAt, target);
+        return tweet && readPostedTweet(createTweetResponse(tweet));
+      } catch (lookupError) {
+        logger.warn(
+          `Failed to look up the posted tweet: ${lookupError instanceof Error ? lookupError.message : String(lookupError)}`,
+        );
+        return undefined;
+      }
     }
   }
 
@@ -323,16 +916,18 @@ export class TwitterIntegration {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      return await this.scraper.likeTweet(tweetId);
+      // Liking an already liked tweet has no further effect, so retries are safe
+      await this.callScraper('likeTweet', (scraper) => scraper.likeTweet(tweetId));
+      ResponseCache.getInstance().invalidate({ type: 'tweet', key: tweetId });
     } catch (error) {
       logger.error(
         `Failed to like tweet ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      throw error;
+      throw classifyError(error);
     }
   }
 
@@ -343,150 +938,161 @@ export class TwitterIntegration {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      return await this.scraper.retweet(tweetId);
+      // Retweeting twice is rejected rather than duplicated. When a retry is rejected that way,
+      // the earlier attempt took effect.
+      await this.callScraper(
+        'retweet',
+        async (scraper) => {
+          await scraper.retweet(tweetId);
+          return true;
+        },
+        true,
+        async (error) => (getErrorCode(error) === ALREADY_RETWEETED_ERROR_CODE ? true : undefined),
+      );
+      ResponseCache.getInstance().invalidate({ type: 'tweet', key: tweetId });
     } catch (error) {
       logger.error(
         `Failed to retweet ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      throw error;
+      throw classifyError(error);
     }
   }
 
   /**
-   * Search for tweets.
+   * Search for tweets, one page at a time.
+   *
+   * @param cursor Cursor returned with the previous page, to continue from there
    */
   async searchTweets(
     query: string,
     count = 20,
     searchMode: SearchMode = SearchMode.Top,
-  ): Promise<Tweet[]> {
+    cursor?: string,
+  ): Promise<Page<Tweet>> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const tweetGenerator = this.scraper.searchTweets(query, count, searchMode);
-      const tweets: Tweet[] = [];
-
-      // Consume the generator up to the count
-      for await (const tweet of tweetGenerator) {
-        tweets.push(tweet);
-        if (tweets.length >= count) break;
-      }
+      // The cursor is only valid for the same query and search mode
+      const target = `${searchMode}:${query}`;
 
-      return tweets;
+      return await collectPage('searchTweets', target, count, cursor, (next, max) =>
+        this.callScraper('fetchSearchTweets', async (scraper) => {
+          const page = await scraper.fetchSearchTweets(query, max, searchMode, next);
+          return { items: page.tweets, next: page.next };
+        }),
+      );
     } catch (error) {
       logger.error(
         `Failed to search tweets for "${query}": ${error instanceof Error ? error.message : String(error)}`,
       );
-      return [];
+      throw classifyError(error);
     }
   }
 
   /**
-   * Search for profiles.
+   * Search for profiles, one page at a time.
+   *
+   * @param cursor Cursor returned with the previous page, to continue from there
    */
-  async searchProfiles(query: string, count = 20): Promise<Profile[]> {
+  async searchProfiles(query: string, count = 20, cursor?: string): Promise<Page<Profile>> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const profileGenerator = this.scraper.searchProfiles(query, count);
-      const profiles: Profile[] = [];
-
-      // Consume the generator up to the count
-      for await (const profile of profileGenerator) {
-        profiles.push(profile);
-        if (profiles.length >= count) break;
-      }
-
-      return profiles;
+      return await collectPage('searchProfiles', query, count, cursor, (next, max) =>
+        this.callScraper('fetchSearchProfiles', async (scraper) => {
+          const page = await scraper.fetchSearchProfiles(query, max, next);
+          return { items: page.profiles, next: page.next };
+        }),
+      );
     } catch (error) {
       logger.error(
         `Failed to search profiles for "${query}": ${error instanceof Error ? error.message : String(error)}`,
       );
-      return [];
+      throw classifyError(error);
     }
   }
 
   /**
-   * Get followers of a user.
+   * Get a page of followers of a user.
+   *
+   * @param cursor Cursor returned with the previous page, to continue from there
+   * @param fresh Skip the cache when resolving the username
    */
-  async getFollowers(username: string, count = 20): Promise<Profile[]> {
+  async getFollowers(
+    username: string,
+    count = 20,
+    cursor?: string,
+    fresh = false,
+  ): Promise<Page<Profile>> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
       // First get the user ID
-      const profile = await this.scraper.getProfile(username);
-
-      if (!profile.userId) {
-        throw new Error(`Could not find user ID for ${username}`);
-      }
+      const userId = await this.resolveUserId(username, fresh);
 
-      const followerGenerator = this.scraper.getFollowers(profile.userId, count);
-      const followers: Profile[] = [];
-
-      // Consume the generator up to the count
-      for await (const follower of followerGenerator) {
-        followers.push(follower);
-        if (followers.length >= count) break;
-      }
-
-      return followers;
+      return await collectPage('getFollowers', userId, count, cursor, (next, max) =>
+        this.callScraper('fetchProfileFollowers', async (scraper) => {
+          const page = await scraper.fetchProfileFollowers(userId, max, next);
+          return { items: page.profiles, next: page.next };
+        }),
+      );
     } catch (error) {
       logger.error(
         `Failed to get followers for ${username}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return [];
+      throw classifyError(error);
     }
   }
 
   /**
-   * Get users that a user is following.
+   * Get a page of users that a user is following.
+   *
+   * @param cursor Cursor returned with the previous page, to continue from there
+   * @param fresh Skip the cache when resolving the username
    */
-  async getFollowing(username: string, count = 20): Promise<Profile[]> {
+  async getFollowing(
+    username: string,
+    count = 20,
+    cursor?: string,
+    fresh = false,
+  ): Promise<Page<Profile>> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
       // First get the user ID
-      const profile = await this.scraper.getProfile(username);
-
-      if (!profile.userId) {
-        throw new Error(`Could not find user ID for ${username}`);
-      }
-
-      const followingGenerator = this.scraper.getFollowing(profile.userId, count);
-      const following: Profile[] = [];
-
-      // Consume the generator up to the count
-      for await (const followedUser of followingGenerator) {
-        following.push(followedUser);
-        if (following.length >= count) break;
-      }
+      const userId = await this.resolveUserId(username, fresh);
 
-      return following;
+      return await collectPage('getFollowing', userId, count, cursor, (next, max) =>
+        this.callScraper('fetchProfileFollowing', async (scraper) => {
+          const page = await scraper.fetchProfileFollowing(userId, max, next);
+          return { items: page.profiles, next: page.next };
+        }),
+      );
     } catch (error) {
       logger.error(
         `Failed to get following for ${username}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return [];
+      throw classifyError(error);
     }
   }
 
@@ -497,259 +1103,779 @@ export class TwitterIntegration {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      return await this.scraper.followUser(username);
+      // Following an already followed user has no further effect, so retries are safe
+      await this.callScraper('followUser', (scraper) => scraper.followUser(username));
+
+      const cache = ResponseCache.getInstance();
+      cache.invalidate({ type: 'profile', key: username });
+      cache.invalidate({ account: this.account, type: 'relationship', key: username });
+      cache.invalidate({ account: this.account, type: 'relationship', key: '@following' });
     } catch (error) {
       logger.error(
         `Failed to follow user ${username}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      throw error;
-    }
-  }
-
-  /**
-   * Clean up resources.
-   */
-  async cleanup(): Promise<void> {
-    if (this.scraper) {
-      try {
-        await this.scraper.logout();
-        logger.info('Logged out of Twitter.');
-      } catch (error) {
-        logger.error(
-          `Error during logout: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
-
-      this.scraper = null;
-      this.isInitialized = false;
+      throw classifyError(error);
     }
   }
 
   /**
-   * Get a user's bio by username.
-   * This method retrieves a Twitter user's biography/profile description.
+   * Remove a like from a tweet.
    */
-  async getUserBio(username: string): Promise<string | null> {
+  async unlikeTweet(tweetId: string): Promise<void> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const profile = await this.scraper.getProfile(username);
-      if (!profile) {
-        return null;
-      }
-      return profile.biography || null;
+      // Unliking a tweet that is not liked has no further effect, so retries are safe
+      await this.callScraper('unlikeTweet', (scraper) =>
+        twitterApiRequest(scraper, `${GRAPHQL_URL}/${UNFAVORITE_TWEET_QUERY}`, {
+          method: 'POST',
+          json: { variables: { tweet_id: tweetId } },
+        }),
+      );
+      ResponseCache.getInstance().invalidate({ type: 'tweet', key: tweetId });
     } catch (error) {
       logger.error(
-        `Failed to get bio for ${username}: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to unlike tweet ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return null;
+      throw classifyError(error);
     }
   }
 
   /**
-   * Get a user ID directly by username (screen name).
-   * This is more efficient than retrieving the whole profile when only the ID is needed.
+   * Undo a retweet.
    */
-  async getUserIdByUsername(username: string): Promise<string | null> {
+  async unretweet(tweetId: string): Promise<void> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const userId = await this.scraper.getUserIdByScreenName(username);
-      return userId || null;
-    } catch (error) {
+      // Removing a retweet twice has no further effect, so retries are safe
+      await this.callScraper('unretweet', (scraper) =>
+        twitterApiRequest(scraper, `${GRAPHQL_URL}/${DELETE_RETWEET_QUERY}`, {
+          method: 'POST',
+          json: { variables: { source_tweet_id: tweetId, dark_request: false } },
+        }),
+      );
+      ResponseCache.getInstance().invalidate({ type: 'tweet', key: tweetId });
+    } catch (error) {
       logger.error(
-        `Failed to get user ID for ${username}: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to unretweet ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return null;
+      throw classifyError(error);
     }
   }
 
   /**
-   * Extract text from a tweet for easier processing.
-   * This is useful when you want just the text content without the full tweet object.
+   * Unfollow a user.
    */
-  async getTweetText(tweetId: string): Promise<string | null> {
+  async unfollowUser(username: string): Promise<void> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      const tweet = await this.scraper.getTweet(tweetId);
-      return tweet?.text || null;
+      const userId = await this.resolveUserId(username, false);
+
+      // Unfollowing a user that is not followed has no further effect, so retries are safe
+      await this.callScraper('unfollowUser', (scraper) =>
+        twitterApiRequest(scraper, 'https://api.twitter.com/1.1/friendships/destroy.json', {
+          method: 'POST',
+          form: { user_id: userId, skip_status: 'true' },
+        }),
+      );
+
+      const cache = ResponseCache.getInstance();
+      cache.invalidate({ type: 'profile', key: username });
+      cache.invalidate({ account: this.account, type: 'relationship', key: username });
+      cache.invalidate({ account: this.account, type: 'relationship', key: '@following' });
     } catch (error) {
       logger.error(
-        `Failed to get tweet text for ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to unfollow user ${username}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return null;
+      throw classifyError(error);
     }
   }
 
   /**
-   * Get conversation thread for a tweet.
-   * Retrieves the parent tweet and all replies to a given tweet.
+   * Delete one of the authenticated account's own tweets.
+   * Tweets of other accounts are rejected before anything is sent to Twitter.
    */
-  async getConversationThread(tweetId: string, count = 20): Promise<Tweet[]> {
+  async deleteTweet(tweetId: string): Promise<void> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      // First get the original tweet
-      const originalTweet = await this.scraper.getTweet(tweetId);
-      if (!originalTweet) {
-        throw new Error(`Tweet not found: ${tweetId}`);
+      await this.assertOwnTweet(tweetId);
+
+      // A deleted tweet cannot be deleted again, so retries cannot remove anything else. When
+      // a retry no longer finds the tweet, the earlier attempt deleted it.
+      await this.callScraper(
+        'deleteTweet',
+        (scraper) =>
+          twitterApiRequest(scraper, `${GRAPHQL_URL}/${DELETE_TWEET_QUERY}`, {
+            method: 'POST',
+            json: { variables: { tweet_id: tweetId, dark_request: false } },
+          }),
+        true,
+        async (error) => (error instanceof NotFoundError ? null : undefined),
+      );
+      ResponseCache.getInstance().invalidate({ type: 'tweet', key: tweetId });
+    } catch (error) {
+      logger.error(
+        `Failed to delete tweet ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw classifyError(error);
+    }
+  }
+
+  /**
+   * Clean up resources.
+   * When sessions are persisted, the session is kept alive for the next start instead of logging out.
+   */
+  async cleanup(): Promise<void> {
+    if (this.scraper) {
+      if (config.PERSIST_SESSION) {
+        await this.persistSession();
+      } else {
+        await this.logout();
       }
 
-      const thread: Tweet[] = [originalTweet];
+      this.scraper = null;
+      this.isInitialized = false;
+    }
+  }
 
-      // If it's a reply, get the parent tweet
-      if (originalTweet.inReplyToStatusId) {
-        try {
-          const parentTweet = await this.scraper.getTweet(originalTweet.inReplyToStatusId);
-          if (parentTweet) {
-            thread.unshift(parentTweet); // Add parent at the beginning
+  /**
+   * Report whether this account is initialized and logged in.
+   * Does not trigger a login for accounts that have not been used yet.
+   */
+  async getStatus(): Promise<AccountStatus> {
+    const vault = CredentialVault.getInstance();
+    const status: AccountStatus = {
+      account: this.account,
+      initialized: this.isInitialized,
+      loggedIn: false,
+      hasCredentials: vault.has(this.account, 'TWITTER_USERNAME'),
+      hasStoredSession: this.sessionStore.exists(),
+      proxy: this.proxyUrl ? redactProxyUrl(this.proxyUrl) : null,
+    };
+
+    if (this.scraper && this.isInitialized) {
+      try {
+        status.loggedIn = await this.scraper.isLoggedIn();
+        status.username = status.loggedIn ? (await this.scraper.me())?.username : undefined;
+      } catch (error) {
+        logger.warn(
+          `Failed to check login status for account "${this.account}": ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Delete the stored session and log out, so that the next operation performs a fresh login.
+   */
+  async clearSession(): Promise<void> {
+    this.sessionStore.clear();
+
+    if (this.scraper) {
+      await this.logout();
+      this.scraper = null;
+      this.isInitialized = false;
+    }
+  }
+
+  /**
+   * Create a scraper whose requests go through the account's proxy, if one is configured.
+   */
+  private createScraper(): Scraper {
+    // Every response updates the rate limit budget of the operation that made the request
+    const transform = {
+      response: (response: Response) => RateLimiter.getInstance().observe(response),
+    };
+
+    return this.proxyDispatcher
+      ? new Scraper({ fetch: proxiedFetch(this.proxyDispatcher), transform })
+      : new Scraper({ transform });
+  }
+
+  /**
+   * Call the scraper with the shared retry policy, logging in again once on authentication errors.
+   * Logging in again needs the credentials, so it is skipped once they have been wiped
+   * (RETAIN_CREDENTIALS is off). Every attempt is counted against the account's rate limit budget for the operation.
+   * Calls run in the account's proxy context, because some scraper methods (posting, liking,
+   * retweeting) use the global fetch instead of the scraper's own.
+   *
+   * @param retryTransient Whether transient failures may be retried (reads and idempotent writes)
+   * @param findLanded For posts: find the result of an attempt that failed ambiguously.
+   *   For writes that cannot be applied twice: recognize the error of a retry that was rejected
+   *   because an earlier attempt took effect.
+   */
+  private callScraper<T>(
+    operation: string,
+    call: (scraper: Scraper) => Promise<T>,
+    retryTransient = true,
+    findLanded?: (error: TwitterError) => Promise<T | undefined>,
+  ): Promise<T> {
+    return withRetry(
+      () =>
+        runWithProxy(this.proxyDispatcher, () => {
+          const scraper = this.scraper;
+          if (!scraper) {
+            throw new AuthExpiredError('Twitter client not initialized.');
           }
-        } catch (error) {
-          logger.warn(
-            `Failed to get parent tweet: ${error instanceof Error ? error.message : String(error)}`,
+          return RateLimiter.getInstance().run(this.account, operation, () => call(scraper));
+        }),
+      {
+        operation,
+        retryTransient,
+        findLanded,
+        reauthenticate: CredentialVault.getInstance().isWiped(this.account)
+          ? undefined
+          : async () => {
+              this.isInitialized = false;
+              await this.initialize();
+            },
+      },
+    );
+  }
+
+  /**
+   * Get a profile from the cache or from Twitter, caching its user ID as well.
+   */
+  private async fetchProfile(username: string, fresh: boolean): Promise<Profile> {
+    const cache = ResponseCache.getInstance();
+    const profile = await cache.getOrFetch(
+      this.account,
+      'profile',
+      username,
+      () => this.callScraper('getProfile', (scraper) => scraper.getProfile(username)),
+      fresh,
+    );
+
+    if (profile.userId) {
+      cache.set(this.account, 'userId', username, profile.userId);
+    }
+    return profile;
+  }
+
+  /**
+   * Get a tweet from the cache or from Twitter.
+   */
+  private fetchTweet(tweetId: string, fresh: boolean): Promise<Tweet> {
+    return ResponseCache.getInstance().getOrFetch(
+      this.account,
+      'tweet',
+      tweetId,
+      async () => {
+        const tweet = await this.callScraper('getTweet', (scraper) => scraper.getTweet(tweetId));
+        if (!tweet) {
+          throw new NotFoundError(`Tweet not found: ${tweetId}`);
+        }
+        return tweet;
+      },
+      fresh,
+    );
+  }
+
+  /**
+   * Get a user's ID from the cache or from Twitter.
+   */
+  private resolveUserId(username: string, fresh: boolean): Promise<string> {
+    return ResponseCache.getInstance().getOrFetch(
+      this.account,
+      'userId',
+      username,
+      async () => {
+        const userId = await this.callScraper('getUserIdByScreenName', (scraper) =>
+          scraper.getUserIdByScreenName(username),
+        );
+        if (!userId) {
+          throw new NotFoundError(`User not found: ${username}`);
+        }
+        return userId;
+      },
+      fresh,
+    );
+  }
+
+  /**
+   * Check that a tweet was posted by the authenticated account and return it.
+   * Always fetches the tweet from Twitter, so a cached copy cannot pass the check.
+   */
+  private async assertOwnTweet(tweetId: string): Promise<Tweet> {
+    const tweet = await this.fetchTweet(tweetId, true);
+    const myUserId = await this.getMyUserId();
+
+    if (tweet.userId !== myUserId) {
+      throw new ValidationError(
+        `Tweet ${tweetId} was posted by @${tweet.username ?? tweet.userId}, not by the authenticated account`,
+      );
+    }
+
+    return tweet;
+  }
+
+  /**
+   * Find a tweet with the given text that the authenticated user posted since a post was
+   * first attempted, replying to or quoting the same tweet.
+   */
+  private async findRecentPost(
+    text: string,
+    startedAt: number,
+    target: { inReplyToId?: string; quotedTweetId?: string },
+  ): Promise<Tweet | undefined> {
+    const userId = await this.getMyUserId();
+    const { tweets } = await this.callScraper('getUserTweets', (scraper) =>
+      scraper.getUserTweets(userId, RECENT_POST_SCAN),
+    );
+    const expected = normalizePostText(text);
+
+    return tweets.find(
+      (tweet) =>
+        tweet.id !== undefined &&
+        tweet.text !== undefined &&
+        normalizePostText(tweet.text) === expected &&
+        tweet.inReplyToStatusId === target.inReplyToId &&
+        tweet.quotedStatusId === target.quotedTweetId &&
+        (tweet.timestamp ?? 0) * 1000 >= startedAt - RECENT_POST_SKEW_MS,
+    );
+  }
+
+  /**
+   * Get the authenticated user's ID from the session cookie, or from Twitter if it is not set.
+   */
+  private async getMyUserId(): Promise<string> {
+    if (this.myUserId) {
+      return this.myUserId;
+    }
+
+    const cookies = (await this.scraper?.getCookies()) ?? [];
+    const twid = cookies.find((cookie) => cookie.key === 'twid')?.value;
+    const userId =
+      /^u(?:=|%3D)(\d+)$/.exec(twid ?? '')?.[1] ??
+      (await this.callScraper('me', (scraper) => scraper.me()))?.userId;
+
+    if (!userId) {
+      throw new AuthExpiredError('Could not retrieve authenticated user profile');
+    }
+
+    this.myUserId = userId;
+    return userId;
+  }
+
+  /**
+   * Look up a relationship with Twitter's friendships endpoint.
+   */
+  private async lookupRelationship(username: string, userId: string): Promise<Relationship> {
+    const params = new URLSearchParams({ source_id: await this.getMyUserId(), target_id: userId });
+    const { relationship } = await this.callScraper('friendshipsShow', (scraper) =>
+      twitterApiRequest<FriendshipResponse>(
+        scraper,
+        `https://api.twitter.com/1.1/friendships/show.json?${params}`,
+      ),
+    );
+
+    return {
+      username,
+      userId,
+      following: relationship.source.following ?? null,
+      followedBy: relationship.source.followed_by ?? null,
+      blocking: relationship.source.blocking ?? null,
+      muting: relationship.source.muting ?? null,
+      followRequestSent: relationship.source.following_requested ?? null,
+      method: 'lookup',
+    };
+  }
+
+  /**
+   * Work out a relationship from the authenticated user's following and followers lists.
+   */
+  private async scanRelationship(
+    username: string,
+    userId: string,
+    fresh: boolean,
+  ): Promise<Relationship> {
+    return {
+      username,
+      userId,
+      following: await this.isInConnections('following', userId, fresh),
+      followedBy: await this.isInConnections('followers', userId, fresh),
+      blocking: null,
+      muting: null,
+      followRequestSent: null,
+      method: 'scan',
+    };
+  }
+
+  /**
+   * Check whether a user is in the authenticated user's following or followers list.
+   * The list is paged through completely (up to MAX_RELATIONSHIP_SCAN users) and its user IDs
+   * are cached, so further checks do not fetch it again.
+   * Returns null if the user was not found in a list that is longer than the limit.
+   */
+  private async isInConnections(
+    list: 'following' | 'followers',
+    userId: string,
+    fresh: boolean,
+  ): Promise<boolean | null> {
+    const myUserId = await this.getMyUserId();
+    const operation = list === 'following' ? 'fetchProfileFollowing' : 'fetchProfileFollowers';
+
+    // Usernames cannot start with @, so these keys never collide with a user's relationship
+    const connections = await ResponseCache.getInstance().getOrFetch(
+      this.account,
+      'relationship',
+      `@${list}`,
+      async () => {
+        const ids: string[] = [];
+        let cursor: string | undefined;
+
+        while (ids.length < MAX_RELATIONSHIP_SCAN) {
+          const page = await this.callScraper(operation, (scraper) =>
+            list === 'following'
+              ? scraper.fetchProfileFollowing(myUserId, 50, cursor)
+              : scraper.fetchProfileFollowers(myUserId, 50, cursor),
           );
+          ids.push(...page.profiles.flatMap((profile) => (profile.userId ? [profile.userId] : [])));
+
+          if (!page.next || page.next === cursor || page.profiles.length === 0) {
+            return { ids, complete: true };
+          }
+          cursor = page.next;
         }
+
+        return { ids, complete: false };
+      },
+      fresh,
+    );
+
+    if (connections.ids.includes(userId)) {
+      return true;
+    }
+    return connections.complete ? false : null;
+  }
+
+  /**
+   * Restore the stored session into the scraper and check that it is still logged in.
+   */
+  private async restoreSession(): Promise<boolean> {
+    if (!config.PERSIST_SESSION || !this.scraper) {
+      return false;
+    }
+
+    const cookies = this.sessionStore.load();
+    if (!cookies) {
+      return false;
+    }
+
+    try {
+      await this.scraper.setCookies(cookies);
+
+      if (await this.scraper.isLoggedIn()) {
+        logger.info('Restored stored Twitter session.');
+        return true;
       }
 
-      // Note: Original code tried to use getReplies which isn't supported
-      // We'll fall back to just getting the parent tweet for the conversation
+      logger.info('Stored Twitter session is no longer valid, logging in with credentials...');
+    } catch (error) {
+      logger.warn(
+        `Failed to restore stored Twitter session: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    // Start the password login from a clean cookie jar
+    this.scraper = this.createScraper();
+    return false;
+  }
+
+  /**
+   * Zero the credentials once logged in, unless they are retained for re-authentication.
+   */
+  private releaseCredentials(): void {
+    const vault = CredentialVault.getInstance();
+    if (!config.RETAIN_CREDENTIALS && !vault.isWiped(this.account)) {
+      vault.wipe(this.account);
+    }
+  }
+
+  /**
+   * Save the scraper's cookies to the encrypted session file.
+   */
+  private async persistSession(): Promise<void> {
+    if (!config.PERSIST_SESSION || !this.scraper) {
+      return;
+    }
+
+    try {
+      const cookies = await this.scraper.getCookies();
+      this.sessionStore.save(cookies.map((cookie) => cookie.toString()));
+    } catch (error) {
+      logger.warn(
+        `Failed to read Twitter session cookies: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Log out of Twitter, invalidating the current session.
+   */
+  private async logout(): Promise<void> {
+    if (!this.scraper) {
+      return;
+    }
 
-      return thread;
+    try {
+      await this.scraper.logout();
+      logger.info('Logged out of Twitter.');
     } catch (error) {
       logger.error(
-        `Failed to get conversation thread for ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
+        `Error during logout: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return [];
     }
   }
 
   /**
-   * Check if the authenticated user is following another user.
+   * Get a user's bio by username.
+   * This method retrieves a Twitter user's biography/profile description.
+   *
+   * @param fresh Skip the cache and fetch the profile from Twitter
    */
-  async isFollowing(username: string): Promise<boolean> {
+  async getUserBio(username: string, fresh = false): Promise<string> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      // Note: Original code tried to use isFollowing which isn't supported
-      // Instead we'll check our following list to see if this user is in it
+      const profile = await this.fetchProfile(username, fresh);
+      // An empty bio is a valid result, not a missing one
+      return profile.biography ?? '';
+    } catch (error) {
+      logger.error(
+        `Failed to get bio for ${username}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw classifyError(error);
+    }
+  }
 
-      // First get the user's profile to get their ID
-      const targetProfile = await this.scraper.getProfile(username);
+  /**
+   * Get a user ID directly by username (screen name).
+   * This is more efficient than retrieving the whole profile when only the ID is needed.
+   *
+   * @param fresh Skip the cache and look the ID up on Twitter
+   */
+  async getUserIdByUsername(username: string, fresh = false): Promise<string> {
+    await this.ensureAuthenticated();
 
-      if (!targetProfile || !targetProfile.userId) {
-        throw new Error(`Could not find user ID for ${username}`);
-      }
+    if (!this.scraper) {
+      throw new AuthExpiredError('Twitter client not initialized.');
+    }
 
-      // Get our profile
-      const myProfile = await this.scraper.me();
+    try {
+      return await this.resolveUserId(username, fresh);
+    } catch (error) {
+      logger.error(
+        `Failed to get user ID for ${username}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw classifyError(error);
+    }
+  }
 
-      if (!myProfile || !myProfile.userId) {
-        throw new Error('Could not retrieve authenticated user profile');
-      }
+  /**
+   * Extract text from a tweet for easier processing.
+   * This is useful when you want just the text content without the full tweet object.
+   *
+   * @param fresh Skip the cache and fetch the tweet from Twitter
+   */
+  async getTweetText(tweetId: string, fresh = false): Promise<string> {
+    await this.ensureAuthenticated();
 
-      // Get our following (limited to reasonable amount to check)
-      const following: Profile[] = [];
-      const followingGenerator = this.scraper.getFollowing(myProfile.userId, 100);
+    if (!this.scraper) {
+      throw new AuthExpiredError('Twitter client not initialized.');
+    }
 
-      for await (const followedUser of followingGenerator) {
-        if (followedUser.userId === targetProfile.userId) {
-          return true;
+    try {
+      const tweet = await this.fetchTweet(tweetId, fresh);
+      return tweet.text ?? '';
+    } catch (error) {
+      logger.error(
+        `Failed to get tweet text for ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw classifyError(error);
+    }
+  }
+
+  /**
+   * Reconstruct the conversation around a tweet.
+   * Walks the chain of parent tweets up to the root of the conversation and gathers
+   * replies below the tweet by searching its conversation.
+   *
+   * @param count Maximum number of tweets fetched from the conversation search
+   * @param fresh Skip the cache and fetch the tweets from Twitter
+   * @param limits Limits on the depth and breadth of the replies below the tweet
+   */
+  async getConversationThread(
+    tweetId: string,
+    count = 20,
+    fresh = false,
+    limits: ThreadLimits = DEFAULT_THREAD_LIMITS,
+  ): Promise<ConversationThread> {
+    await this.ensureAuthenticated();
+
+    if (!this.scraper) {
+      throw new AuthExpiredError('Twitter client not initialized.');
+    }
+
+    try {
+      const focalTweet = await this.fetchTweet(tweetId, fresh);
+      const ancestors: Tweet[] = [];
+
+      // Walk up the reply chain; deleted or protected parents end the chain early
+      let parentId = focalTweet.inReplyToStatusId;
+      while (parentId && ancestors.length < MAX_THREAD_ANCESTORS) {
+        try {
+          const parent = await this.fetchTweet(parentId, fresh);
+          ancestors.push(parent);
+          parentId = parent.inReplyToStatusId;
+        } catch (error) {
+          const classified = classifyError(error);
+          if (!(classified instanceof NotFoundError || classified instanceof UnavailableError)) {
+            throw classified;
+          }
+
+          logger.warn(`Stopping at unavailable parent tweet ${parentId}: ${classified.message}`);
+          break;
         }
-        following.push(followedUser);
-        if (following.length >= 100) break;
       }
 
-      return false;
+      const conversationId = focalTweet.conversationId ?? ancestors.at(-1)?.id ?? tweetId;
+      const query = `conversation_id:${conversationId}`;
+      const { items: conversation } = await collectPage(
+        'getConversationThread',
+        conversationId,
+        count,
+        undefined,
+        (next, max) =>
+          this.callScraper('fetchSearchTweets', async (scraper) => {
+            const page = await scraper.fetchSearchTweets(query, max, SearchMode.Latest, next);
+            return { items: page.tweets, next: page.next };
+          }),
+      );
+
+      return buildConversationThread(
+        { ...focalTweet, id: focalTweet.id ?? tweetId },
+        ancestors,
+        conversation,
+        limits,
+      );
     } catch (error) {
       logger.error(
-        `Failed to check following status for ${username}: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to get conversation thread for ${tweetId}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return false;
+      throw classifyError(error);
     }
   }
 
   /**
-   * Upload media to Twitter.
-   * This is useful for attaching media to tweets.
+   * Check if the authenticated user is following another user.
+   * Returns null if this cannot be determined (see getRelationship).
    *
-   * @param mediaData The binary data of the media as a Buffer or base64 string
-   * @param mediaType The MIME type of the media (e.g., 'image/jpeg', 'image/png', 'video/mp4')
-   * @returns An object containing the uploaded media ID or an error
+   * @param fresh Skip the cache and look the relationship up on Twitter
    */
-  async uploadMedia(
-    mediaData: Buffer | string,
-    mediaType: string,
-  ): Promise<{
-    data: Buffer<ArrayBufferLike>;
-    mediaType: string;
-  }> {
+  async isFollowing(username: string, fresh = false): Promise<boolean | null> {
+    const relationship = await this.getRelationship(username, fresh);
+    return relationship.following;
+  }
+
+  /**
+   * Get the relationship between the authenticated user and another user.
+   * Uses Twitter's relationship lookup; if that is not available, falls back to scanning the
+   * authenticated user's following and followers lists, which cannot report blocks, mutes
+   * or follow requests.
+   *
+   * @param fresh Skip the cache and look the relationship up on Twitter
+   */
+  async getRelationship(username: string, fresh = false): Promise<Relationship> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      // Validate media type
-      const supportedImageTypes = ['image/jpeg', 'image/png', 'image/gif'];
-      const supportedVideoTypes = ['video/mp4'];
-      const supportedTypes = [...supportedImageTypes, ...supportedVideoTypes];
-
-      if (!supportedTypes.includes(mediaType)) {
-        throw new Error(
-          `Unsupported media type: ${mediaType}. Supported types are: ${supportedTypes.join(', ')}`,
-        );
-      }
-
-      // If the mediaData is passed as a base64 string, convert it to a Buffer
-      const buffer =
-        typeof mediaData === 'string'
-          ? Buffer.from(mediaData.replace(/^data:.*?;base64,/, ''), 'base64')
-          : mediaData;
+      return await ResponseCache.getInstance().getOrFetch(
+        this.account,
+        'relationship',
+        username,
+        async () => {
+          const targetUserId = await this.resolveUserId(username, fresh);
+
+          try {
+            return await this.lookupRelationship(username, targetUserId);
+          } catch (error) {
+            // Transient failures (including rate limits) would hit the fallback just as well
+            const classified = classifyError(error);
+            if (classified.retryable) {
+              throw classified;
+            }
+
+            logger.warn(
+              `Relationship lookup for ${username} failed (${classified.message}), scanning following and followers lists instead`,
+            );
+            return await this.scanRelationship(username, targetUserId, fresh);
+          }
+        },
+        fresh,
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to get relationship with ${username}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw classifyError(error);
+    }
+  }
 
-      logger.info(`Preparing media of type ${mediaType} (${buffer.length} bytes)`);
+  /**
+   * Store media in the media registry so that tweets can refer to it by ID.
+   * The media is validated like media attached to a tweet.
+   *
+   * @param media The media as base64 data with its MIME type, or the path of a media file
+   * @returns The handle of the stored media, with its ID, size and expiry, and what the
+   * validator changed to make it fit
+   */
+  async uploadMedia(media: MediaInput): Promise<MediaHandle & { changes?: string[] }> {
+    try {
+      const [item] = await this.prepareMedia([media]);
 
-      // If it's a video, validate file size (512MB max)
-      if (mediaType === 'video/mp4' && buffer.length > 512 * 1024 * 1024) {
-        throw new Error('Video file size exceeds maximum limit of 512MB');
-      }
+      logger.info(`Storing media of type ${item.mediaType} (${item.data.length} bytes)`);
 
-      // Instead of using a direct uploadMedia method (which doesn't exist),
-      // we'll prepare the media item and return it to be used with sendTweet
-      return {
-        data: buffer,
-        mediaType: mediaType,
-      };
+      const handle = MediaRegistry.getInstance().register(item.data, item.mediaType);
+      return { ...handle, ...(item.changes && { changes: item.changes }) };
     } catch (error) {
       logger.error(
         `Failed to process media: ${error instanceof Error ? error.message : String(error)}`,
       );
-      throw error;
+      throw classifyError(error);
     }
   }
 
@@ -758,79 +1884,296 @@ export class TwitterIntegration {
    * This is a convenience method that handles both uploading media and sending a tweet in one call.
    *
    * @param text The text content of the tweet
-   * @param media An array of media objects with base64 data and media types
+   * @param media An array of media objects with base64 data and media types, media IDs or paths
    * @param inReplyToId Optional tweet ID to reply to
+   * @param retryTransient Retry transient failures, only safe when protected by an idempotency key
    * @returns Response from the Twitter API
    */
   async sendTweetWithMedia(
     text: string,
-    media: Array<{ data: string; mediaType: string }>,
+    media: MediaInput[],
     inReplyToId?: string,
+    retryTransient = false,
   ): Promise<Response> {
     await this.ensureAuthenticated();
 
     if (!this.scraper) {
-      throw new Error('Twitter client not initialized.');
+      throw new AuthExpiredError('Twitter client not initialized.');
     }
 
     try {
-      // Twitter limitations:
-      // - Maximum 4 images per tweet
-      // - Only 1 video per tweet
-      // - Cannot mix videos and images in the same tweet
+      const mediaItems = await this.prepareMedia(media);
 
-      // Count image and video items
-      const imageItems = media.filter((item) =>
-        ['image/jpeg', 'image/png', 'image/gif'].includes(item.mediaType),
+      logger.info(
+        `Sending tweet with ${mediaItems.length} media items: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`,
       );
 
-      const videoItems = media.filter((item) => item.mediaType === 'video/mp4');
+      return await this.sendTweet(text, mediaItems, inReplyToId, retryTransient);
+    } catch (error) {
+      logger.error(
+        `Failed to send tweet with media: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw classifyError(error);
+    }
+  }
 
-      // Validate counts
-      if (imageItems.length > 0 && videoItems.length > 0) {
-        throw new Error('Cannot mix images and videos in the same tweet');
-      }
+  /**
+   * Preview sending a tweet (with optional media) without posting it.
+   * Runs the same validation as the real send and resolves the reply target.
+   */
+  async previewSendTweet(
+    text: string,
+    media?: MediaInput[],
+    inReplyToId?: string,
+  ): Promise<WritePreview> {
+    const mediaItems = media ? await this.prepareMedia(media) : [];
+    this.validateTweetText(text, mediaItems.length);
+
+    const preview: WritePreview = {
+      dryRun: true,
+      action: media ? 'sendTweetWithMedia' : 'sendTweet',
+      text,
+    };
+
+    if (mediaItems.length > 0) {
+      preview.media = previewMedia(mediaItems);
+    }
 
-      if (imageItems.length > 4) {
-        throw new Error('Maximum of 4 images per tweet allowed');
-      }
+    if (inReplyToId) {
+      const replyTarget = await this.getTweet(inReplyToId);
+      preview.inReplyToId = inReplyToId;
+      preview.target = {
+        tweetId: replyTarget.id,
+        userId: replyTarget.userId,
+        username: replyTarget.username,
+        text: replyTarget.text,
+      };
+    }
 
-      if (videoItems.length > 1) {
-        throw new Error('Maximum of 1 video per tweet allowed');
-      }
+    return preview;
+  }
 
-      // Upload all media files
-      const mediaItems = await Promise.all(
-        media.map(async (item) => {
-          // Validate media type
-          const supportedTypes = ['image/jpeg', 'image/png', 'image/gif', 'video/mp4'];
-          if (!supportedTypes.includes(item.mediaType)) {
-            throw new Error(
-              `Unsupported media type: ${item.mediaType}. Supported types are: ${supportedTypes.join(', ')}`,
-            );
-          }
+  /**
+   * Preview quoting a tweet without posting it.
+   * Runs the same validation as the real post and resolves the quoted tweet.
+   */
+  async previewQuoteTweet(
+    text: string,
+    quotedTweet: string,
+    media?: MediaInput[],
+  ): Promise<WritePreview> {
+    const mediaItems = media ? await this.prepareMedia(media) : [];
+    this.validateTweetText(text, mediaItems.length);
+
+    const quoted = await this.fetchTweet(parseTweetId(quotedTweet), true);
+
+    const preview: WritePreview = {
+      dryRun: true,
+      action: 'quoteTweet',
+      text,
+      quotedTweetId: quoted.id,
+      target: {
+        tweetId: quoted.id,
+        userId: quoted.userId,
+        username: quoted.username,
+        text: quoted.text,
+      },
+    };
+
+    if (mediaItems.length > 0) {
+      preview.media = previewMedia(mediaItems);
+    }
 
-          const buffer = Buffer.from(item.data.replace(/^data:.*?;base64,/, ''), 'base64');
+    return preview;
+  }
 
-          // If it's a video, validate file size (512MB max)
-          if (item.mediaType === 'video/mp4' && buffer.length > 512 * 1024 * 1024) {
-            throw new Error('Video file size exceeds maximum limit of 512MB');
-          }
+  /**
+   * Preview posting a thread without posting it.
+   * Runs the same validation as the real post and resolves the tweet the thread continues.
+   */
+  async previewSendThread(
+    segments: ThreadSegment[],
+    inReplyToId?: string,
+    postedTweetIds?: string[],
+  ): Promise<WritePreview> {
+    const prepared = await this.prepareThread(segments, postedTweetIds);
+
+    const preview: WritePreview = {
+      dryRun: true,
+      action: 'sendThread',
+      segments: prepared.segments.map(({ text, mediaItems }) => ({
+        text,
+        ...(mediaItems.length > 0 && { media: previewMedia(mediaItems) }),
+      })),
+    };
+
+    if (prepared.postedTweetIds.length > 0) {
+      preview.postedTweetIds = prepared.postedTweetIds;
+    }
 
-          return { data: buffer, mediaType: item.mediaType };
-        }),
+    const parentId = prepared.postedTweetIds[prepared.postedTweetIds.length - 1] ?? inReplyToId;
+    if (parentId) {
+      const parent = await this.getTweet(parentId);
+      preview.inReplyToId = parentId;
+      preview.target = {
+        tweetId: parent.id,
+        userId: parent.userId,
+        username: parent.username,
+        text: parent.text,
+      };
+    }
+
+    return preview;
+  }
+
+  /**
+   * Preview liking or retweeting a tweet without doing it.
+   * Resolves the target tweet so that unknown IDs fail the same way a real call would.
+   */
+  async previewTweetAction(
+    action: 'likeTweet' | 'retweet' | 'unlikeTweet' | 'unretweet' | 'deleteTweet',
+    tweetId: string,
+  ): Promise<WritePreview> {
+    const tweet =
+      action === 'deleteTweet' ? await this.assertOwnTweet(tweetId) : await this.getTweet(tweetId);
+
+    return {
+      dryRun: true,
+      action,
+      target: {
+        tweetId: tweet.id,
+        userId: tweet.userId,
+        username: tweet.username,
+        text: tweet.text,
+      },
+    };
+  }
+
+  /**
+   * Preview following or unfollowing a user without doing it.
+   */
+  async previewFollowUser(
+    username: string,
+    action: 'followUser' | 'unfollowUser' = 'followUser',
+  ): Promise<WritePreview> {
+    const profile = await this.getProfileByUsername(username);
+
+    if (!profile.userId) {
+      throw new NotFoundError(`User not found: ${username}`);
+    }
+
+    return {
+      dryRun: true,
+      action,
+      target: {
+        userId: profile.userId,
+        username: profile.username,
+      },
+    };
+  }
+
+  /**
+   * Validate every segment of a thread and decode its media.
+   */
+  private async prepareThread(
+    segments: ThreadSegment[],
+    postedTweetIds: string[] = [],
+  ): Promise<{
+    segments: Array<{ text: string; mediaItems: ValidatedMedia[] }>;
+    postedTweetIds: string[];
+  }> {
+    if (!Array.isArray(segments) || segments.length === 0) {
+      throw new ValidationError('A thread needs at least one segment');
+    }
+
+    if (segments.length > MAX_THREAD_SEGMENTS) {
+      throw new ValidationError(
+        `A thread has ${segments.length} segments, exceeding the maximum of ${MAX_THREAD_SEGMENTS}`,
       );
+    }
 
-      logger.info(
-        `Sending tweet with ${mediaItems.length} media items: ${text.substring(0, 30)}${text.length > 30 ? '...' : ''}`,
+    if (!Array.isArray(postedTweetIds) || postedTweetIds.length >= segments.length) {
+      throw new ValidationError(
+        'postedTweetIds must be an array with fewer IDs than the thread has segments',
       );
+    }
 
-      return await this.sendTweet(text, mediaItems, inReplyToId);
-    } catch (error) {
-      logger.error(
-        `Failed to send tweet with media: ${error instanceof Error ? error.message : String(error)}`,
+    const prepared: Array<{ text: string; mediaItems: ValidatedMedia[] }> = [];
+    for (const [index, segment] of segments.entries()) {
+      if (typeof segment?.text !== 'string') {
+        throw new ValidationError(`Segment ${index + 1} of the thread has no text`);
+      }
+
+      try {
+        const mediaItems = segment.media ? await this.prepareMedia(segment.media) : [];
+        this.validateTweetText(segment.text, mediaItems.length);
+        prepared.push({ text: segment.text, mediaItems });
+      } catch (error) {
+        throw new ValidationError(
+          `Segment ${index + 1} of the thread: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    return { segments: prepared, postedTweetIds: postedTweetIds.map(parseTweetId) };
+  }
+
+  /**
+   * Delete the segments of a failed thread posted by this call, newest first.
+   * Segments that cannot be deleted stay posted and are reported with their error.
+   *
+   * @param resumedTweetIds Segments posted by earlier calls, which are kept
+   */
+  private async rollbackThread(
+    results: ThreadSegmentResult[],
+    resumedTweetIds: string[],
+  ): Promise<ThreadResult> {
+    const posted = results
+      .filter((result) => result.status === 'posted' && result.index >= resumedTweetIds.length)
+      .reverse();
+    let deleted = 0;
+
+    for (const result of posted) {
+      try {
+        await this.deleteTweet(result.id as string);
+        result.status = 'deleted';
+        deleted++;
+      } catch (error) {
+        result.error = classifyError(error).toPayload();
+      }
+    }
+
+    logger.info(`Rolled back ${deleted} of ${posted.length} thread tweets`);
+
+    return {
+      status: deleted === posted.length ? 'rolled_back' : 'rollback_failed',
+      segments: results,
+      ...(resumedTweetIds.length > 0 ? { postedTweetIds: resumedTweetIds } : {}),
+    };
+  }
+
+  /**
+   * Validate tweet text before posting, counting its length the way Twitter does.
+   * Text may only be empty when media is attached.
+   */
+  private validateTweetText(text: string, mediaCount: number): void {
+    if (!text && mediaCount === 0) {
+      throw new ValidationError('Tweet text must not be empty');
+    }
+
+    const analysis = analyzeTweetText(text);
+    if (!analysis.valid) {
+      throw new ValidationError(
+        `Tweet text is ${analysis.weightedLength} characters (URLs count as 23, emoji and CJK characters as 2), exceeding the maximum of ${analysis.maxLength}. Use validateTweetText with split: true to split it into a thread.`,
       );
-      throw error;
     }
   }
+
+  /**
+   * Read and decode media for a tweet and validate it with the shared media validator.
+   */
+  private async prepareMedia(media: MediaInput[]): Promise<ValidatedMedia[]> {
+    const registry = MediaRegistry.getInstance();
+    return validateMedia(media.map((item) => registry.resolve(item)));
+  }
 }
@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+import { existsSync } from 'fs';
+import { createInterface } from 'readline';
+import { Writable } from 'stream';
+
+import { accountEnvName, config, logger, MAIN_ACCOUNT } from './config.js';
+import { CREDENTIAL_NAMES, readVaultFile, writeVaultFile } from './credential-vault.js';
+
+const USAGE = `Usage: twitter-client-mcp-vault <command> [--file <path>] [--account <name>] [--force]
+
+Commands:
+  create   Create a new encrypted credential vault
+  rotate   Re-encrypt an existing vault with a new passphrase, optionally updating credentials
+
+Options:
+  --file <path>     Vault file (default: VAULT_FILE or <DATA_DIR>/vault.json)
+  --account <name>  Account whose credentials to enter (default: main)
+  --force           Overwrite an existing vault when creating
+`;
+
+// Output that can be muted while secrets are typed
+let muted = false;
+const output = new Writable({
+  write(chunk, encoding, callback) {
+    if (!muted) {
+      process.stderr.write(chunk, encoding);
+    }
+    callback();
+  },
+});
+
+const rl = createInterface({ input: process.stdin, output, terminal: !!process.stdin.isTTY });
+
+// Read answers through the line iterator so piped input is buffered rather than dropped
+const lines = rl[Symbol.asyncIterator]();
+
+/**
+ * Ask a question, hiding the answer for secrets.
+ */
+async function prompt(question: string, hidden = false): Promise<string> {
+  process.stderr.write(question);
+  muted = hidden;
+
+  try {
+    const answer = await lines.next();
+    if (answer.done) {
+      throw new Error('Input ended before all questions were answered');
+    }
+    return answer.value.trim();
+  } finally {
+    if (hidden) {
+      muted = false;
+      process.stderr.write('\n');
+    }
+  }
+}
+
+/**
+ * Ask for a new passphrase twice and make sure both entries match.
+ */
+async function promptNewPassphrase(): Promise<Buffer> {
+  const passphrase = await prompt('New vault passphrase: ', true);
+  const confirmation = await prompt('Confirm passphrase: ', true);
+
+  if (!passphrase) {
+    throw new Error('Passphrase must not be empty');
+  }
+  if (passphrase !== confirmation) {
+    throw new Error('Passphrases do not match');
+  }
+
+  return Buffer.from(passphrase, 'utf8');
+}
+
+/**
+ * Ask for each of an account's credentials. Blank answers keep the existing value (or skip it).
+ */
+async function promptCredentials(
+  account: string,
+  existing: Record<string, string>,
+): Promise<Record<string, string>> {
+  const secrets: Record<string, string> = { ...existing };
+
+  for (const name of CREDENTIAL_NAMES) {
+    const envName = accountEnvName(account, name);
+    const suffix = existing[envName] ? ' (blank to keep current)' : ' (blank to skip)';
+    const value = await prompt(`${envName}${suffix}: `, name !== 'TWITTER_USERNAME');
+    if (value) {
+      secrets[envName] = value;
+    }
+  }
+
+  return secrets;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  const fileIndex = args.indexOf('--file');
+  const filePath = fileIndex >= 0 ? args[fileIndex + 1] : config.VAULT_FILE;
+  const accountIndex = args.indexOf('--account');
+  const account = accountIndex >= 0 ? args[accountIndex + 1] : MAIN_ACCOUNT;
+
+  if (command === 'create') {
+    if (existsSync(filePath) && !args.includes('--force')) {
+      throw new Error(`Vault file already exists: ${filePath}. Use --force to overwrite it.`);
+    }
+
+    const secrets = await promptCredentials(account, {});
+    const passphrase = await promptNewPassphrase();
+    writeVaultFile(filePath, secrets, passphrase);
+
+    logger.info(`Created vault ${filePath} with ${Object.keys(secrets).length} credentials`);
+  } else if (command === 'rotate') {
+    const current = Buffer.from(await prompt('Current vault passphrase: ', true), 'utf8');
+    let secrets = readVaultFile(filePath, current);
+
+    const update = await prompt('Update credentials too? (y/N): ');
+    if (update.toLowerCase() === 'y') {
+      secrets = await promptCredentials(account, secrets);
+    }
+
+    const passphrase = await promptNewPassphrase();
+    writeVaultFile(filePath, secrets, passphrase);
+
+    logger.info(`Rotated vault ${filePath}`);
+  } else {
+    process.stderr.write(USAGE);
+    process.exitCode = command ? 1 : 0;
+  }
+}
+
+main()
+  .catch((error) => {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  })
+  .finally(() => rl.close());
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ApprovalQueue } from '../src/approval-queue.js';
+import { NotFoundError } from '../src/errors.js';
+import { useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+
+const queue = ApprovalQueue.getInstance();
+const requestedBy = { name: 'agent', version: '1.0.0' };
+
+function enqueueTweet(text: string): string {
+  return queue.enqueue('sendTweet', { text, inReplyToId: '10' }, requestedBy).id;
+}
+
+describe('ApprovalQueue', () => {
+  it('approves an action once, with the reviewer edits', () => {
+    const id = enqueueTweet('Draft text');
+
+    const approved = queue.approve(id, { text: 'Reviewed text' });
+    assert.equal(approved.status, 'approved');
+    assert.deepEqual(approved.arguments, { text: 'Reviewed text', inReplyToId: '10' });
+
+    assert.throws(() => queue.approve(id), /already approved/);
+    assert.throws(() => queue.reject(id), /already approved/);
+  });
+
+  it('previews edits without claiming the action', () => {
+    const id = enqueueTweet('Draft text');
+
+    const preview = queue.preview(id, { text: 'Reviewed text' });
+    assert.equal(preview.arguments.text, 'Reviewed text');
+
+    const [stored] = queue.list('pending').filter((action) => action.id === id);
+    assert.equal(stored.arguments.text, 'Draft text');
+  });
+
+  it('rejects edits of fields other than the content', () => {
+    const id = enqueueTweet('Draft text');
+
+    assert.throws(() => queue.approve(id, { inReplyToId: '11' }), /not: inReplyToId/);
+    assert.throws(() => queue.approve(id, ['text'] as never), /must be an object/);
+    assert.equal(queue.preview(id).status, 'pending');
+
+    const like = queue.enqueue('likeTweet', { tweetId: '10' }, requestedBy).id;
+    assert.throws(() => queue.approve(like, { tweetId: '11' }), /cannot be edited/);
+  });
+
+  it('keeps rejected actions from running', () => {
+    const id = enqueueTweet('Draft text');
+
+    const rejected = queue.reject(id, 'Off topic');
+    assert.equal(rejected.status, 'rejected');
+    assert.equal(rejected.reason, 'Off topic');
+    assert.throws(() => queue.approve(id), /already rejected/);
+  });
+
+  it('records the outcome of an approved action', () => {
+    const succeeded = enqueueTweet('Posted');
+    queue.approve(succeeded);
+    const result = queue.recordOutcome(succeeded, { result: { id: '1' } });
+    assert.equal(result.status, 'approved');
+    assert.deepEqual(result.result, { id: '1' });
+
+    const failed = enqueueTweet('Rejected by Twitter');
+    queue.approve(failed);
+    const failure = queue.recordOutcome(failed, { error: 'Tweet rejected' });
+    assert.equal(failure.status, 'failed');
+    assert.equal(failure.error, 'Tweet rejected');
+  });
+
+  it('reports unknown actions', () => {
+    assert.throws(() => queue.approve('missing'), NotFoundError);
+    assert.throws(() => queue.reject('missing'), NotFoundError);
+  });
+});
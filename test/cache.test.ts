@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+
+import { ResponseCache } from '../src/cache.js';
+import { config } from '../src/config.js';
+
+const cache = ResponseCache.getInstance();
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    cache.invalidate();
+    config.CACHE_MAX_ENTRIES = 3;
+    config.CACHE_TTLS = { profile: 1000, tweet: 1000, userId: 1000, relationship: 1000 };
+  });
+
+  it('returns cached values by account, type and case-insensitive key', () => {
+    cache.set('main', 'profile', 'Jack', { name: 'jack' });
+
+    assert.deepEqual(cache.get('main', 'profile', 'JACK'), { name: 'jack' });
+    assert.equal(cache.get('brand', 'profile', 'jack'), undefined);
+    assert.equal(cache.get('main', 'tweet', 'jack'), undefined);
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    cache.set('main', 'tweet', '1', 1);
+    cache.set('main', 'tweet', '2', 2);
+    cache.set('main', 'tweet', '3', 3);
+    // Reading 1 makes 2 the least recently used
+    cache.get('main', 'tweet', '1');
+    cache.set('main', 'tweet', '4', 4);
+
+    assert.equal(cache.get('main', 'tweet', '2'), undefined);
+    assert.equal(cache.get('main', 'tweet', '1'), 1);
+    assert.equal(cache.get('main', 'tweet', '3'), 3);
+    assert.equal(cache.get('main', 'tweet', '4'), 4);
+  });
+
+  it('expires entries after the TTL of their type', (t) => {
+    let now = 1_000_000;
+    t.mock.method(Date, 'now', () => now);
+    config.CACHE_TTLS.userId = 5000;
+
+    cache.set('main', 'tweet', '1', 'tweet');
+    cache.set('main', 'userId', 'jack', '12');
+
+    now += 1000;
+    assert.equal(cache.get('main', 'tweet', '1'), undefined);
+    assert.equal(cache.get('main', 'userId', 'jack'), '12');
+
+    now += 4000;
+    assert.equal(cache.get('main', 'userId', 'jack'), undefined);
+  });
+
+  it('does not cache when disabled', () => {
+    config.CACHE_TTLS.profile = 0;
+    cache.set('main', 'profile', 'jack', {});
+    assert.equal(cache.get('main', 'profile', 'jack'), undefined);
+
+    config.CACHE_MAX_ENTRIES = 0;
+    cache.set('main', 'tweet', '1', {});
+    assert.equal(cache.get('main', 'tweet', '1'), undefined);
+  });
+
+  it('fetches on a miss and when a fresh value is requested', async () => {
+    let fetches = 0;
+    const fetch = async () => ++fetches;
+
+    assert.equal(await cache.getOrFetch('main', 'tweet', '1', fetch), 1);
+    assert.equal(await cache.getOrFetch('main', 'tweet', '1', fetch), 1);
+    assert.equal(await cache.getOrFetch('main', 'tweet', '1', fetch, true), 2);
+    assert.equal(await cache.getOrFetch('main', 'tweet', '1', fetch), 2);
+  });
+
+  it('invalidates matching entries', () => {
+    cache.set('main', 'tweet', '1', 1);
+    cache.set('main', 'profile', 'jack', {});
+    cache.set('brand', 'tweet', '1', 1);
+
+    assert.equal(cache.invalidate({ account: 'main', type: 'tweet' }), 1);
+    assert.equal(cache.get('main', 'tweet', '1'), undefined);
+    assert.equal(cache.get('brand', 'tweet', '1'), 1);
+    assert.equal(cache.invalidate({ key: 'JACK' }), 1);
+  });
+
+  it('counts hits and misses per type', () => {
+    const before = cache.stats().types.find((stats) => stats.type === 'relationship');
+    cache.set('main', 'relationship', 'jack', {});
+    cache.get('main', 'relationship', 'jack');
+    cache.get('main', 'relationship', 'someone');
+
+    const after = cache.stats().types.find((stats) => stats.type === 'relationship');
+    assert.equal(after?.entries, 1);
+    assert.equal(after?.hits, (before?.hits ?? 0) + 1);
+    assert.equal(after?.misses, (before?.misses ?? 0) + 1);
+  });
+});
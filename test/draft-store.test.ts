@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { hostname } from 'node:os';
+import { describe, it } from 'node:test';
+
+import { config } from '../src/config.js';
+import { type Draft, DraftStore } from '../src/draft-store.js';
+import { JsonFileStore } from '../src/storage.js';
+import { useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+
+const drafts = DraftStore.getInstance();
+const store = new JsonFileStore<Draft[]>('drafts.json', () => []);
+
+function createDraft(text: string): string {
+  return drafts.create(config.DEFAULT_ACCOUNT, { text }).id;
+}
+
+describe('DraftStore publishing claims', () => {
+  it('locks a claimed draft until the claim is released', () => {
+    const id = createDraft('Claimed once');
+
+    const claimed = drafts.claimForPublishing(id);
+    assert.equal(claimed.status, 'publishing');
+
+    assert.throws(() => drafts.claimForPublishing(id), /already publishing/);
+    assert.throws(() => drafts.update(id, { text: 'Changed' }), /already publishing/);
+    assert.throws(() => drafts.delete(id), /being published/);
+
+    drafts.releaseClaim(id, 'Tweet rejected');
+    const released = drafts.get(id);
+    assert.equal(released.status, 'draft');
+    assert.equal(released.error, 'Tweet rejected');
+    assert.equal(released.claimedBy, undefined);
+  });
+
+  it('saves the content a claim was made with as a new version', () => {
+    const id = createDraft('First version');
+
+    drafts.claimForPublishing(id, { text: 'Approved version' });
+    const published = drafts.markPublished(id, { id: '1', url: 'https://x.com/i/1' });
+
+    assert.equal(published.status, 'published');
+    assert.equal(published.text, 'Approved version');
+    assert.equal(published.version, 2);
+    assert.equal(published.publishedTweetId, '1');
+    assert.equal(published.claimedBy, undefined);
+    assert.throws(() => drafts.claimForPublishing(id), /already published/);
+  });
+
+  it('only recovers claims of processes that have stopped', () => {
+    const stopped = spawnSync(process.execPath, ['-e', '']).pid;
+    const abandoned = createDraft('Abandoned');
+    const running = createDraft('Being published');
+    drafts.claimForPublishing(running);
+
+    store.update((items) => {
+      const draft = items.find((candidate) => candidate.id === abandoned)!;
+      draft.status = 'publishing';
+      draft.claimedBy = `${hostname()}:${stopped}`;
+    });
+
+    drafts.recoverInterrupted();
+
+    const recovered = drafts.get(abandoned);
+    assert.equal(recovered.status, 'draft');
+    assert.match(recovered.error ?? '', /stopped while publishing/);
+    assert.equal(drafts.get(running).status, 'publishing');
+  });
+});
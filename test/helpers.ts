@@ -0,0 +1,52 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after } from 'node:test';
+
+import { config } from '../src/config.js';
+import { createTwitterServer, type TwitterServerOptions } from '../src/index.js';
+
+/**
+ * Keep the stores of a test file in a temporary data directory, removed after the tests.
+ * Call it before the stores are first used.
+ */
+export function useTempDataDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'twitter-client-mcp-'));
+  config.DATA_DIR = dir;
+  after(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/**
+ * Connect an MCP client to a new server with the given options.
+ */
+export async function connectServer(options: Partial<TwitterServerOptions> = {}): Promise<Client> {
+  const { server } = createTwitterServer({
+    name: 'test',
+    version: '0.0.0',
+    includeAllTools: true,
+    ...options,
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test-client', version: '0.0.0' });
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  after(() => client.close());
+  return client;
+}
+
+/**
+ * Call a tool and parse the JSON text of its result.
+ */
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown> = {},
+): Promise<{ isError: boolean; body: Record<string, unknown> }> {
+  const result = await client.callTool({ name, arguments: args });
+  const [output] = result.content as Array<{ type: string; text: string }>;
+  return { isError: result.isError === true, body: JSON.parse(output.text) };
+}
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { after, describe, it } from 'node:test';
+
+import { type HttpServerOptions, startHttpServer } from '../src/http-server.js';
+import { createTwitterServer } from '../src/index.js';
+import { useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '0.0.0' },
+  },
+};
+
+/**
+ * Start an HTTP server on a free port and return its /mcp URL.
+ */
+async function startServer(options: Partial<HttpServerOptions> = {}): Promise<string> {
+  const server: Server = await startHttpServer(
+    () => createTwitterServer({ name: 'test', version: '0.0.0' }).server,
+    { host: '127.0.0.1', port: 0, ...options },
+  );
+  after(() => new Promise((resolve) => server.close(resolve)));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+}
+
+function post(url: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body),
+  });
+}
+
+/**
+ * Send a request with a Host header of its own, which fetch does not allow, and return the
+ * response status.
+ */
+function postWithHost(url: string, host: string, body: unknown): Promise<number | undefined> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: {
+        Host: host,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+    });
+    req.on('response', (res) => {
+      res.resume();
+      resolve(res.statusCode);
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+describe('HTTP server', () => {
+  it('starts sessions from loopback hosts and origins', async () => {
+    const url = await startServer();
+
+    const response = await post(url, INITIALIZE, { Origin: 'http://localhost:5173' });
+    assert.equal(response.status, 200);
+    assert.ok(response.headers.get('mcp-session-id'));
+    await response.body?.cancel();
+  });
+
+  it('rejects requests from other origins and hosts', async () => {
+    const url = await startServer({ allowedOrigins: ['https://app.example.com'] });
+
+    const foreignOrigin = await post(url, INITIALIZE, { Origin: 'http://attacker.example' });
+    assert.equal(foreignOrigin.status, 403);
+
+    assert.equal(await postWithHost(url, 'attacker.example', INITIALIZE), 403);
+
+    const allowed = await post(url, INITIALIZE, { Origin: 'https://app.example.com' });
+    assert.equal(allowed.status, 200);
+    await allowed.body?.cancel();
+  });
+
+  it('answers oversized bodies with 413', async () => {
+    const url = await startServer();
+
+    const response = await post(url, Buffer.alloc(64 * 1024 * 1024 + 1, ' '));
+    assert.equal(response.status, 413);
+  });
+
+  it('closes idle sessions', async () => {
+    const url = await startServer({ sessionIdleMs: 50 });
+
+    const initialized = await post(url, INITIALIZE);
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+    await initialized.body?.cancel();
+    await sleep(200);
+
+    const response = await post(
+      url,
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': sessionId },
+    );
+    assert.equal(response.status, 404);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AccountRegistry } from '../src/account-registry.js';
+import { config } from '../src/config.js';
+import { UpstreamError } from '../src/errors.js';
+import { IdempotencyStore } from '../src/idempotency.js';
+import { callTool, connectServer, useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+
+describe('idempotency keys', () => {
+  it('replays the stored result instead of posting again', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    const send = t.mock.method(twitter, 'sendTweet', async () => new Response('{}'));
+    const client = await connectServer();
+    const args = { text: 'Posted once', idempotencyKey: 'replay-1' };
+
+    const first = await client.callTool({ name: 'sendTweet', arguments: args });
+    const second = await client.callTool({ name: 'sendTweet', arguments: args });
+
+    assert.equal(send.mock.callCount(), 1);
+    assert.equal(first.isError, undefined);
+    assert.deepEqual(second.content, first.content);
+    assert.equal(second._meta?.idempotentReplay, true);
+    assert.equal(first._meta?.idempotentReplay, undefined);
+  });
+
+  it('runs a call again when the call with its key failed', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    const send = t.mock.method(twitter, 'sendTweet', async () => new Response('{}'));
+    send.mock.mockImplementationOnce(async () => {
+      throw new UpstreamError('Tweet rejected');
+    });
+    const client = await connectServer();
+    const args = { text: 'Posted on the second try', idempotencyKey: 'replay-2' };
+
+    const failed = await callTool(client, 'sendTweet', args);
+    const retried = await client.callTool({ name: 'sendTweet', arguments: args });
+
+    assert.equal(failed.isError, true);
+    assert.equal(retried.isError, undefined);
+    assert.equal(retried._meta?.idempotentReplay, undefined);
+    assert.equal(send.mock.callCount(), 2);
+  });
+
+  it('rejects a key reused for another tool or account', () => {
+    const store = IdempotencyStore.getInstance();
+    const result = { content: [{ type: 'text' as const, text: '{}' }] };
+    store.remember('reused', 'sendTweet', config.DEFAULT_ACCOUNT, result);
+
+    assert.deepEqual(store.get('reused', 'sendTweet', config.DEFAULT_ACCOUNT), result);
+    assert.throws(() => store.get('reused', 'quoteTweet', config.DEFAULT_ACCOUNT), /already used/);
+    assert.throws(() => store.get('reused', 'sendTweet', 'other'), /already used/);
+    assert.equal(store.get('unused', 'sendTweet', config.DEFAULT_ACCOUNT), null);
+  });
+
+  it('forgets keys after 24 hours', (t) => {
+    const store = IdempotencyStore.getInstance();
+    const result = { content: [{ type: 'text' as const, text: '{}' }] };
+    t.mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    store.remember('expiring', 'sendTweet', config.DEFAULT_ACCOUNT, result);
+
+    t.mock.timers.tick(24 * 60 * 60 * 1000 + 1);
+    assert.equal(store.get('expiring', 'quoteTweet', config.DEFAULT_ACCOUNT), null);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AccountRegistry } from '../src/account-registry.js';
+import { ApprovalQueue } from '../src/approval-queue.js';
+import { DraftStore } from '../src/draft-store.js';
+import { callTool, connectServer, useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+
+describe('approval mode', () => {
+  it('queues a like and runs it once approved', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    t.mock.method(twitter, 'previewTweetAction', async (action: string, tweetId: string) => ({
+      dryRun: true,
+      action,
+      target: { tweetId },
+    }));
+    const like = t.mock.method(twitter, 'likeTweet', async () => {});
+    const client = await connectServer({ approvalMode: true, approvalReviewer: true });
+
+    const queued = await callTool(client, 'likeTweet', { tweetId: '20' });
+    assert.equal(queued.body.status, 'pending_approval');
+    assert.equal(like.mock.callCount(), 0);
+
+    const approved = await callTool(client, 'approvePendingAction', {
+      actionId: queued.body.actionId,
+    });
+    assert.equal(approved.isError, false);
+    assert.equal(approved.body.status, 'approved');
+    assert.deepEqual(approved.body.result, { success: true, tweetId: '20' });
+    assert.equal(like.mock.callCount(), 1);
+  });
+
+  it('approves a queued clearSession without running it during validation', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    const clear = t.mock.method(twitter, 'clearSession', async () => {});
+    const client = await connectServer({ approvalMode: true, approvalReviewer: true });
+
+    const queued = await callTool(client, 'clearSession', { confirm: true, dryRun: true });
+    assert.equal(queued.body.status, 'pending_approval');
+
+    const approved = await callTool(client, 'approvePendingAction', {
+      actionId: queued.body.actionId,
+    });
+    assert.equal(approved.body.status, 'approved');
+    assert.equal(clear.mock.callCount(), 1);
+  });
+
+  it('posts the draft content that was queued, with the reviewer edits', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    t.mock.method(twitter, 'previewSendTweet', async (text: string) => ({ dryRun: true, text }));
+    const send = t.mock.method(twitter, 'sendTweet', async () => new Response('{}'));
+    t.mock.method(twitter, 'readPost', async () => ({ id: '1', url: 'https://x.com/i/1' }));
+    const client = await connectServer({ approvalMode: true, approvalReviewer: true });
+
+    const draft = await callTool(client, 'createDraft', { text: 'Seen by the reviewer' });
+    const queued = await callTool(client, 'publishDraft', { draftId: draft.body.id });
+    await callTool(client, 'updateDraft', { draftId: draft.body.id, text: 'Changed later' });
+
+    const [action] = ApprovalQueue.getInstance()
+      .list('pending')
+      .filter((item) => item.id === queued.body.actionId);
+    assert.equal(action.arguments.text, 'Seen by the reviewer');
+
+    const approved = await callTool(client, 'approvePendingAction', {
+      actionId: queued.body.actionId,
+      edits: { text: 'Edited by the reviewer' },
+    });
+    assert.equal(approved.isError, false);
+    assert.equal(send.mock.calls[0].arguments[0], 'Edited by the reviewer');
+
+    const published = DraftStore.getInstance().get(draft.body.id as string);
+    assert.equal(published.status, 'published');
+    assert.equal(published.text, 'Edited by the reviewer');
+    assert.equal(published.publishedTweetId, '1');
+  });
+
+  it('rejects edits that do not apply to the tool', async () => {
+    const client = await connectServer({ approvalMode: true, approvalReviewer: true });
+    const queued = await callTool(client, 'likeTweet', { tweetId: '20' });
+
+    const approved = await callTool(client, 'approvePendingAction', {
+      actionId: queued.body.actionId,
+      edits: { text: 'hello' },
+    });
+    assert.equal(approved.isError, true);
+    assert.match(approved.body.error as string, /cannot be edited/);
+  });
+
+  it('never runs a rejected action', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    t.mock.method(twitter, 'previewTweetAction', async (action: string, tweetId: string) => ({
+      dryRun: true,
+      action,
+      target: { tweetId },
+    }));
+    const like = t.mock.method(twitter, 'likeTweet', async () => {});
+    const client = await connectServer({ approvalMode: true, approvalReviewer: true });
+    const queued = await callTool(client, 'likeTweet', { tweetId: '20' });
+
+    const rejected = await callTool(client, 'rejectPendingAction', {
+      actionId: queued.body.actionId,
+      reason: 'Not our account',
+    });
+    assert.equal(rejected.body.status, 'rejected');
+
+    const approved = await callTool(client, 'approvePendingAction', {
+      actionId: queued.body.actionId,
+    });
+    assert.equal(approved.isError, true);
+    assert.equal(like.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { config } from '../src/config.js';
+import { NotFoundError, ValidationError } from '../src/errors.js';
+import { MediaRegistry } from '../src/media-registry.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('MediaRegistry media paths', () => {
+  const root = mkdtempSync(join(tmpdir(), 'media-registry-'));
+  const allowed = join(root, 'allowed');
+  config.DATA_DIR = join(root, 'data');
+  config.MEDIA_ALLOWED_DIRS = [allowed];
+
+  const registry = MediaRegistry.getInstance();
+  const resolvePath = (path: string) => registry.resolve({ path });
+
+  before(() => {
+    mkdirSync(join(allowed, 'nested'), { recursive: true });
+    mkdirSync(join(root, 'allowed-sibling'));
+    writeFileSync(join(allowed, 'image.png'), PNG);
+    writeFileSync(join(allowed, 'nested', 'image.png'), PNG);
+    writeFileSync(join(root, 'secret.png'), PNG);
+    writeFileSync(join(root, 'allowed-sibling', 'image.png'), PNG);
+    symlinkSync(join(root, 'secret.png'), join(allowed, 'escape.png'));
+    symlinkSync(join(allowed, 'image.png'), join(allowed, 'link.png'));
+  });
+
+  after(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads files inside the allowed directories', () => {
+    assert.deepEqual(resolvePath('image.png').data, PNG);
+    assert.deepEqual(resolvePath('nested/image.png').data, PNG);
+    assert.deepEqual(resolvePath(join(allowed, 'nested', 'image.png')).data, PNG);
+    assert.deepEqual(resolvePath('nested/../image.png').data, PNG);
+  });
+
+  it('keeps the given media type', () => {
+    const media = registry.resolve({ path: 'image.png', mediaType: 'image/png' });
+    assert.equal(media.mediaType, 'image/png');
+  });
+
+  it('rejects paths that leave the allowed directories', () => {
+    for (const path of [
+      '../secret.png',
+      'nested/../../secret.png',
+      join(root, 'secret.png'),
+      join(allowed, '..', 'secret.png'),
+      '../allowed-sibling/image.png',
+      '/etc/passwd',
+    ]) {
+      assert.throws(() => resolvePath(path), /outside the allowed directories/, path);
+    }
+  });
+
+  it('rejects the allowed directory itself', () => {
+    assert.throws(() => resolvePath('.'), ValidationError);
+    assert.throws(() => resolvePath(allowed), ValidationError);
+  });
+
+  it('follows symlinks only within the allowed directories', () => {
+    assert.deepEqual(resolvePath('link.png').data, PNG);
+    assert.throws(() => resolvePath('escape.png'), /outside the allowed directories/);
+  });
+
+  it('rejects missing files and directories', () => {
+    assert.throws(() => resolvePath('missing.png'), NotFoundError);
+    assert.throws(() => resolvePath('nested'), /not a file/);
+  });
+
+  it('rejects all paths when no directories are allowed', () => {
+    config.MEDIA_ALLOWED_DIRS = [];
+    try {
+      assert.throws(() => resolvePath('image.png'), /Media paths are disabled/);
+    } finally {
+      config.MEDIA_ALLOWED_DIRS = [allowed];
+    }
+  });
+});
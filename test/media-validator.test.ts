@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ValidationError } from '../src/errors.js';
+import { detectMediaType, readMp4Duration, validateMedia } from '../src/media-validator.js';
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0, 0]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+const GIF = Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1');
+const WEBP = Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 ', 'latin1');
+
+/**
+ * Build an ISO media box.
+ */
+function box(type: string, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Build an MP4 file whose movie header gives the duration in seconds.
+ */
+function mp4(seconds: number, version: 0 | 1 = 0): Buffer {
+  const timescale = 1000;
+  const mvhd = Buffer.alloc(version === 1 ? 32 : 20);
+  mvhd[0] = version;
+  if (version === 1) {
+    mvhd.writeUInt32BE(timescale, 20);
+    mvhd.writeBigUInt64BE(BigInt(seconds * timescale), 24);
+  } else {
+    mvhd.writeUInt32BE(timescale, 12);
+    mvhd.writeUInt32BE(seconds * timescale, 16);
+  }
+
+  return Buffer.concat([
+    box('ftyp', Buffer.from('isom\x00\x00\x02\x00', 'latin1')),
+    box('free'),
+    box('moov', box('mvhd', mvhd), box('trak')),
+  ]);
+}
+
+describe('detectMediaType', () => {
+  it('detects formats from their magic bytes', () => {
+    assert.equal(detectMediaType(JPEG), 'image/jpeg');
+    assert.equal(detectMediaType(PNG), 'image/png');
+    assert.equal(detectMediaType(GIF), 'image/gif');
+    assert.equal(detectMediaType(Buffer.from('GIF87a', 'latin1')), 'image/gif');
+    assert.equal(detectMediaType(WEBP), 'image/webp');
+    assert.equal(detectMediaType(mp4(10)), 'video/mp4');
+  });
+
+  it('detects MP4 files from their major or compatible brands', () => {
+    const ftyp = (brands: string) => box('ftyp', Buffer.from(brands, 'latin1'));
+
+    assert.equal(detectMediaType(ftyp('mp42\x00\x00\x00\x00mp42isom')), 'video/mp4');
+    assert.equal(detectMediaType(ftyp('XAVC\x00\x00\x00\x00XAVCmp42iso2')), 'video/mp4');
+  });
+
+  it('rejects unknown formats and ISO media files that are not MP4 video', () => {
+    const ftyp = (brands: string) => box('ftyp', Buffer.from(brands, 'latin1'));
+
+    assert.equal(detectMediaType(Buffer.from('%PDF-1.7')), undefined);
+    assert.equal(detectMediaType(Buffer.alloc(0)), undefined);
+    assert.equal(detectMediaType(ftyp('qt  ')), undefined);
+    assert.equal(detectMediaType(ftyp('heic\x00\x00\x00\x00mif1heic')), undefined);
+    assert.equal(detectMediaType(ftyp('avif\x00\x00\x00\x00avifmif1miaf')), undefined);
+    assert.equal(detectMediaType(ftyp('M4A \x00\x00\x00\x00M4A mp42isom')), undefined);
+    assert.equal(detectMediaType(ftyp('mif1\x00\x00\x00\x00mif1iso8')), undefined);
+  });
+});
+
+describe('readMp4Duration', () => {
+  it('reads version 0 and version 1 movie headers', () => {
+    assert.equal(readMp4Duration(mp4(42)), 42);
+    assert.equal(readMp4Duration(mp4(300, 1)), 300);
+  });
+
+  it('returns undefined without a movie header', () => {
+    assert.equal(readMp4Duration(box('ftyp', Buffer.from('isom', 'latin1'))), undefined);
+  });
+
+  it('returns undefined for a truncated movie header', () => {
+    assert.equal(readMp4Duration(mp4(42).subarray(0, -20)), undefined);
+  });
+});
+
+describe('validateMedia', () => {
+  it('replaces the given type with the detected one', async () => {
+    const [item] = await validateMedia([{ data: PNG, mediaType: 'image/jpeg' }]);
+
+    assert.equal(item.mediaType, 'image/png');
+    assert.deepEqual(item.changes, ['Detected image/png instead of the given image/jpeg']);
+  });
+
+  it('rejects unsupported formats', async () => {
+    await assert.rejects(validateMedia([{ data: Buffer.from('hello') }]), ValidationError);
+  });
+
+  it('allows up to 4 images', async () => {
+    const images = [JPEG, PNG, WEBP, JPEG].map((data) => ({ data }));
+
+    assert.equal((await validateMedia(images)).length, 4);
+    await assert.rejects(validateMedia([...images, { data: PNG }]), /Maximum of 4 images/);
+  });
+
+  it('allows one video, not mixed with other media', async () => {
+    await assert.rejects(validateMedia([{ data: mp4(5) }, { data: mp4(5) }]), /1 video/);
+    await assert.rejects(validateMedia([{ data: mp4(5) }, { data: JPEG }]), /Cannot mix/);
+  });
+
+  it('allows one GIF, not mixed with other media', async () => {
+    assert.equal((await validateMedia([{ data: GIF }])).length, 1);
+    await assert.rejects(validateMedia([{ data: GIF }, { data: GIF }]), /1 GIF/);
+    await assert.rejects(
+      validateMedia([{ data: GIF }, { data: PNG }]),
+      /Cannot mix images and GIFs/,
+    );
+    await assert.rejects(validateMedia([{ data: GIF }, { data: mp4(5) }]), /videos and GIFs/);
+  });
+
+  it('rejects videos longer than 140 seconds', async () => {
+    assert.equal((await validateMedia([{ data: mp4(140) }])).length, 1);
+    await assert.rejects(validateMedia([{ data: mp4(141) }]), /141 seconds long/);
+  });
+
+  it('rejects oversized media', async () => {
+    const gif = Buffer.concat([GIF, Buffer.alloc(15 * 1024 * 1024)]);
+    await assert.rejects(validateMedia([{ data: gif }]), /exceeding the image\/gif limit/);
+
+    const jpeg = Buffer.concat([JPEG, Buffer.alloc(5 * 1024 * 1024)]);
+    await assert.rejects(validateMedia([{ data: jpeg }]), /MEDIA_RESIZE_IMAGES/);
+  });
+});
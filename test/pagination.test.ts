@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ValidationError } from '../src/errors.js';
+import { collectPage, type UpstreamPage } from '../src/pagination.js';
+
+/**
+ * Simulate Twitter's cursors over a list of results, serving pages of at most `pageSize`
+ * results whatever the count asked for. Records the cursors it was called with.
+ */
+function upstream(total: number, pageSize: number) {
+  const results = Array.from({ length: total }, (_, index) => index);
+  const calls: Array<string | undefined> = [];
+
+  const fetchPage = async (cursor: string | undefined): Promise<UpstreamPage<number>> => {
+    calls.push(cursor);
+    const start = cursor ? Number(cursor) : 0;
+    const end = Math.min(start + pageSize, total);
+    return { items: results.slice(start, end), next: end < total ? String(end) : undefined };
+  };
+
+  return { fetchPage, calls };
+}
+
+describe('collectPage', () => {
+  it('follows Twitter cursors until enough results were fetched', async () => {
+    const { fetchPage, calls } = upstream(100, 20);
+    const page = await collectPage('getUserTweets', 'jack', 50, undefined, fetchPage);
+
+    assert.deepEqual(page.items, Array.from({ length: 50 }, (_, index) => index));
+    assert.deepEqual(calls, [undefined, '20', '40']);
+    assert.ok(page.nextCursor);
+  });
+
+  it('resumes within a Twitter page without skipping or repeating results', async () => {
+    const { fetchPage } = upstream(100, 20);
+    const seen: number[] = [];
+
+    let cursor: string | undefined;
+    do {
+      const page = await collectPage('searchTweets', 'query', 7, cursor, fetchPage);
+      seen.push(...page.items);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    assert.deepEqual(seen, Array.from({ length: 100 }, (_, index) => index));
+  });
+
+  it('returns a null cursor on the last page', async () => {
+    const { fetchPage } = upstream(5, 20);
+    const page = await collectPage('getUserTweets', 'jack', 10, undefined, fetchPage);
+
+    assert.deepEqual(page.items, [0, 1, 2, 3, 4]);
+    assert.equal(page.nextCursor, null);
+  });
+
+  it('stops when Twitter repeats a cursor', async () => {
+    let calls = 0;
+    const page = await collectPage('getUserTweets', 'jack', 10, undefined, async () => {
+      calls++;
+      return { items: [1], next: 'same' };
+    });
+
+    assert.equal(calls, 2);
+    assert.deepEqual(page.items, [1, 1]);
+    assert.equal(page.nextCursor, null);
+  });
+
+  it('rejects cursors issued for another query', async () => {
+    const { fetchPage } = upstream(100, 20);
+    const { nextCursor } = await collectPage('getUserTweets', 'jack', 5, undefined, fetchPage);
+    assert.ok(nextCursor);
+
+    await assert.rejects(
+      collectPage('getUserTweets', 'someone', 5, nextCursor, fetchPage),
+      /not issued for this getUserTweets query/,
+    );
+    await assert.rejects(
+      collectPage('searchTweets', 'jack', 5, nextCursor, fetchPage),
+      ValidationError,
+    );
+  });
+
+  it('rejects malformed cursors', async () => {
+    const { fetchPage } = upstream(100, 20);
+    const forged = Buffer.from(JSON.stringify({ v: 1, source: 'a', target: 'b', offset: -1 }));
+
+    await assert.rejects(collectPage('a', 'b', 5, 'not a cursor', fetchPage), /Invalid cursor/);
+    await assert.rejects(
+      collectPage('a', 'b', 5, forged.toString('base64url'), fetchPage),
+      /Invalid cursor/,
+    );
+  });
+
+  it('rejects counts that are not positive integers', async () => {
+    const { fetchPage } = upstream(100, 20);
+
+    await assert.rejects(collectPage('a', 'b', 0, undefined, fetchPage), ValidationError);
+    await assert.rejects(collectPage('a', 'b', 1.5, undefined, fetchPage), ValidationError);
+  });
+});
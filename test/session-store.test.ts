@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { SessionStore } from '../src/session-store.js';
+import { useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+
+describe('SessionStore', () => {
+  it('stores the cookies encrypted and zeroes the passphrase after use', () => {
+    const passphrases: Buffer[] = [];
+    const getPassphrase = () => {
+      const passphrase = Buffer.from('user:password', 'utf8');
+      passphrases.push(passphrase);
+      return passphrase;
+    };
+
+    new SessionStore('session.json', getPassphrase).save(['auth_token=secret']);
+    const loaded = new SessionStore('session.json', getPassphrase).load();
+
+    assert.deepEqual(loaded, ['auth_token=secret']);
+    assert.equal(passphrases.length, 2);
+    for (const passphrase of passphrases) {
+      assert.ok(passphrase.every((byte) => byte === 0));
+    }
+  });
+
+  it('ignores a session stored with another passphrase', () => {
+    new SessionStore('other.json', () => Buffer.from('first')).save(['auth_token=secret']);
+
+    assert.equal(new SessionStore('other.json', () => Buffer.from('second')).load(), null);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { utimesSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { JsonFileStore } from '../src/storage.js';
+import { useTempDataDir } from './helpers.js';
+
+const dataDir = useTempDataDir();
+const storageModule = fileURLToPath(new URL('../src/storage.ts', import.meta.url));
+
+/**
+ * Increment a counter in a store from a separate process.
+ */
+function incrementInChild(fileName: string, times: number): Promise<number | null> {
+  const script = `
+    import { config } from ${JSON.stringify(storageModule.replace(/storage\.ts$/, 'config.ts'))};
+    import { JsonFileStore } from ${JSON.stringify(storageModule)};
+    config.DATA_DIR = ${JSON.stringify(dataDir)};
+    const store = new JsonFileStore(${JSON.stringify(fileName)}, () => ({ count: 0 }));
+    for (let i = 0; i < ${times}; i++) store.update((value) => { value.count++; });
+  `;
+  const child = spawn(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', script], {
+    stdio: 'inherit',
+  });
+  return new Promise((resolve) => child.on('exit', resolve));
+}
+
+describe('JsonFileStore updates', () => {
+  it('applies concurrent updates from several processes one after the other', async () => {
+    const exitCodes = await Promise.all([
+      incrementInChild('counter.json', 200),
+      incrementInChild('counter.json', 200),
+    ]);
+
+    assert.deepEqual(exitCodes, [0, 0]);
+    const store = new JsonFileStore('counter.json', () => ({ count: 0 }));
+    assert.deepEqual(store.read(), { count: 400 });
+  });
+
+  it('takes over a lock left behind by a crashed process', () => {
+    const lockPath = join(dataDir, 'stale.json.lock');
+    writeFileSync(lockPath, '');
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, old, old);
+
+    const store = new JsonFileStore<string[]>('stale.json', () => []);
+    store.update((values) => values.push('updated'));
+    assert.deepEqual(store.read(), ['updated']);
+  });
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { hostname } from 'node:os';
+import { describe, it } from 'node:test';
+
+import { AccountRegistry } from '../src/account-registry.js';
+import { config } from '../src/config.js';
+import { UpstreamError } from '../src/errors.js';
+import { JsonFileStore, PROCESS_OWNER } from '../src/storage.js';
+import { type ScheduledTweet, TweetScheduler } from '../src/tweet-scheduler.js';
+import { useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+
+const scheduler = TweetScheduler.getInstance();
+const store = new JsonFileStore<ScheduledTweet[]>('scheduled-tweets.json', () => []);
+
+/**
+ * Schedule a tweet and move it into the past, so that it is due.
+ */
+function scheduleDue(text: string, change: Partial<ScheduledTweet> = {}): string {
+  const publishAt = new Date(Date.now() + 60_000).toISOString();
+  const { id } = scheduler.schedule(config.DEFAULT_ACCOUNT, { text }, publishAt);
+
+  store.update((items) => {
+    const item = items.find((candidate) => candidate.id === id);
+    Object.assign(item!, { publishAt: new Date(Date.now() - 1000).toISOString() }, change);
+  });
+  return id;
+}
+
+function stored(id: string): ScheduledTweet {
+  return store.read().find((item) => item.id === id)!;
+}
+
+describe('TweetScheduler publishing', () => {
+  it('records the posted tweet', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    t.mock.method(twitter, 'sendTweet', async () => new Response('{}'));
+    t.mock.method(twitter, 'readPost', async () => ({ id: '1', url: 'https://x.com/i/1' }));
+    const id = scheduleDue('Posted on time');
+
+    await scheduler.publishDue();
+
+    const item = stored(id);
+    assert.equal(item.status, 'posted');
+    assert.equal(item.postedTweetId, '1');
+    assert.equal(item.claimedBy, undefined);
+  });
+
+  it('marks a tweet that could not be sent as failed, which can be rescheduled', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    t.mock.method(twitter, 'sendTweet', async () => {
+      throw new UpstreamError('Tweet rejected');
+    });
+    const id = scheduleDue('Rejected');
+
+    await scheduler.publishDue();
+
+    assert.equal(stored(id).status, 'failed');
+    assert.equal(stored(id).error, 'Tweet rejected');
+
+    const later = new Date(Date.now() + 60_000).toISOString();
+    assert.equal(scheduler.reschedule(id, later).status, 'scheduled');
+  });
+
+  it('marks a sent tweet that cannot be found as unconfirmed, not to be rescheduled', async (t) => {
+    const twitter = AccountRegistry.getInstance().get();
+    const send = t.mock.method(twitter, 'sendTweet', async () => new Response('{}'));
+    t.mock.method(twitter, 'readPost', async () => undefined);
+    const id = scheduleDue('Sent but not found');
+
+    await scheduler.publishDue();
+    await scheduler.publishDue();
+
+    assert.equal(send.mock.callCount(), 1);
+    assert.equal(stored(id).status, 'unconfirmed');
+
+    const later = new Date(Date.now() + 60_000).toISOString();
+    assert.throws(() => scheduler.reschedule(id, later), /already unconfirmed/);
+    assert.equal(scheduler.cancel(id).status, 'cancelled');
+  });
+});
+
+describe('TweetScheduler recovery', () => {
+  it('only recovers claims of processes that have stopped', (t) => {
+    const stopped = spawnSync(process.execPath, ['-e', '']).pid;
+    const abandoned = scheduleDue('Abandoned', {
+      status: 'publishing',
+      claimedBy: `${hostname()}:${stopped}`,
+    });
+    const ownClaim = scheduleDue('Own claim', { status: 'publishing', claimedBy: PROCESS_OWNER });
+    const remote = scheduleDue('Other host', {
+      status: 'publishing',
+      claimedBy: `another-host:${stopped}`,
+    });
+
+    t.mock.method(scheduler, 'publishDue', async () => {});
+    scheduler.start();
+    scheduler.stop();
+
+    assert.equal(stored(abandoned).status, 'unconfirmed');
+    assert.equal(stored(abandoned).claimedBy, undefined);
+    assert.equal(stored(ownClaim).status, 'publishing');
+    assert.equal(stored(remote).status, 'publishing');
+  });
+});
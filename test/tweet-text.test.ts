@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  analyzeTweetText,
+  MAX_TWEET_LENGTH,
+  splitTweetText,
+  weighTweetText,
+} from '../src/tweet-text.js';
+
+describe('weighTweetText', () => {
+  it('counts Latin characters as one', () => {
+    assert.equal(weighTweetText('Hello, world!'), 13);
+  });
+
+  it('counts CJK characters as two', () => {
+    assert.equal(weighTweetText('日本語'), 6);
+  });
+
+  it('counts emoji as two, however many code points they have', () => {
+    assert.equal(weighTweetText('👍'), 2);
+    assert.equal(weighTweetText('👨‍👩‍👧'), 2);
+    assert.equal(weighTweetText('🇫🇷'), 2);
+  });
+
+  it('counts every URL as 23 characters', () => {
+    assert.equal(weighTweetText('https://example.com/a/very/long/path/to/something'), 23);
+    assert.equal(weighTweetText('see example.com'), 4 + 23);
+  });
+
+  it('does not count trailing punctuation as part of a URL', () => {
+    assert.equal(weighTweetText('Read https://example.com.'), 5 + 23 + 1);
+  });
+});
+
+describe('analyzeTweetText', () => {
+  it('reports the remaining characters and the URLs found', () => {
+    const analysis = analyzeTweetText('Look at https://example.com/x');
+
+    assert.equal(analysis.weightedLength, 8 + 23);
+    assert.equal(analysis.remaining, MAX_TWEET_LENGTH - 31);
+    assert.equal(analysis.valid, true);
+    assert.deepEqual(analysis.urls, ['https://example.com/x']);
+  });
+
+  it('rejects text over the limit', () => {
+    const analysis = analyzeTweetText('a'.repeat(MAX_TWEET_LENGTH + 1));
+
+    assert.equal(analysis.valid, false);
+    assert.equal(analysis.remaining, -1);
+  });
+
+  it('accepts CJK text up to half the limit', () => {
+    assert.equal(analyzeTweetText('字'.repeat(MAX_TWEET_LENGTH / 2)).valid, true);
+    assert.equal(analyzeTweetText('字'.repeat(MAX_TWEET_LENGTH / 2 + 1)).valid, false);
+  });
+});
+
+describe('splitTweetText', () => {
+  it('returns text that fits as a single, unnumbered segment', () => {
+    assert.deepEqual(splitTweetText('  Short tweet.  '), ['Short tweet.']);
+  });
+
+  it('splits between sentences and numbers the segments', () => {
+    const sentence = `This sentence is long${' enough'.repeat(20)}.`;
+    const segments = splitTweetText(Array(4).fill(sentence).join(' '));
+
+    assert.ok(segments.length > 1);
+    segments.forEach((segment, index) => {
+      assert.ok(weighTweetText(segment) <= MAX_TWEET_LENGTH);
+      assert.ok(segment.endsWith(`. ${index + 1}/${segments.length}`));
+    });
+  });
+
+  it('keeps every word of the text', () => {
+    const text = Array.from({ length: 200 }, (_, index) => `word${index}`).join(' ');
+    const segments = splitTweetText(text);
+    const words = segments.flatMap((segment) => segment.split(' ').slice(0, -1));
+
+    assert.equal(words.join(' '), text);
+  });
+
+  it('splits a single word that is too long', () => {
+    const segments = splitTweetText('x'.repeat(600));
+
+    assert.equal(segments.length, 3);
+    assert.ok(segments.every((segment) => weighTweetText(segment) <= MAX_TWEET_LENGTH));
+    assert.equal(segments.map((segment) => segment.split(' ')[0]).join(''), 'x'.repeat(600));
+  });
+
+  it('leaves room for two-digit numbering', () => {
+    const segments = splitTweetText('word '.repeat(600));
+
+    assert.ok(segments.length >= 10);
+    assert.ok(segments.every((segment) => weighTweetText(segment) <= MAX_TWEET_LENGTH));
+  });
+});
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { describe, it, type TestContext } from 'node:test';
+
+import { AccountRegistry } from '../src/account-registry.js';
+import { config } from '../src/config.js';
+import { useTempDataDir } from './helpers.js';
+
+useTempDataDir();
+config.RETRY_BASE_DELAY_MS = 1;
+
+const ALREADY_RETWEETED =
+  '{"errors":[{"code":327,"message":"You have already retweeted this Tweet."}]}';
+
+const NETWORK_ERROR = Object.assign(new TypeError('fetch failed'), {
+  cause: { code: 'ECONNRESET' },
+});
+
+/**
+ * Get the default account's integration, logged in with a fake scraper.
+ */
+function loggedInWith(t: TestContext, scraper: object) {
+  const twitter = AccountRegistry.getInstance().get();
+  Object.assign(twitter, { scraper });
+  t.mock.method(twitter, 'ensureAuthenticated', async () => true);
+  return twitter;
+}
+
+describe('TwitterIntegration retries of writes that cannot be applied twice', () => {
+  it('treats a retweet retry rejected as already retweeted as success', async (t) => {
+    const retweet = t.mock.fn(async () => {
+      throw new Error(ALREADY_RETWEETED);
+    });
+    retweet.mock.mockImplementationOnce(async () => {
+      throw NETWORK_ERROR;
+    });
+    const twitter = loggedInWith(t, { retweet });
+
+    await twitter.retweet('20');
+    assert.equal(retweet.mock.callCount(), 2);
+  });
+
+  it('still reports a first retweet of an already retweeted tweet', async (t) => {
+    const twitter = loggedInWith(t, {
+      retweet: async () => {
+        throw new Error(ALREADY_RETWEETED);
+      },
+    });
+
+    await assert.rejects(twitter.retweet('20'), /already retweeted/);
+  });
+
+  it('treats a delete retry that no longer finds the tweet as success', async (t) => {
+    const twitter = loggedInWith(t, { getCookies: async () => [] });
+    t.mock.method(
+      twitter as unknown as { assertOwnTweet(id: string): Promise<unknown> },
+      'assertOwnTweet',
+      async () => ({}),
+    );
+    const responses = [
+      new Response('Bad gateway', { status: 502 }),
+      new Response(JSON.stringify({ errors: [{ code: 144, message: 'No status found' }] }), {
+        status: 404,
+      }),
+    ];
+    const fetch = t.mock.method(globalThis, 'fetch', async () => responses.shift());
+
+    await twitter.deleteTweet('20');
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+});
+
+describe('TwitterIntegration threads', () => {
+  const segments = [{ text: 'One' }, { text: 'Two' }, { text: 'Three' }];
+
+  /**
+   * Post each segment as the next tweet ID, failing the segment with the given text.
+   */
+  function postThread(t: TestContext, failing: string) {
+    const twitter = AccountRegistry.getInstance().get();
+    let nextId = 2;
+    const send = t.mock.method(twitter, 'sendTweet', async (text: string) => {
+      if (text === failing) {
+        throw new Error('Tweet rejected');
+      }
+      return new Response('{}');
+    });
+    t.mock.method(twitter, 'readPost', async () => {
+      const id = String(nextId++);
+      return { id, url: `https://x.com/i/${id}` };
+    });
+    const remove = t.mock.method(twitter, 'deleteTweet', async () => {});
+    return { twitter, send, remove };
+  }
+
+  it('resumes below the segments posted by an earlier call', async (t) => {
+    const { twitter, send } = postThread(t, '');
+
+    const result = await twitter.sendThread(segments, { postedTweetIds: ['1'] });
+
+    assert.equal(result.status, 'posted');
+    assert.deepEqual(result.segments.map((segment) => segment.id), ['1', '2', '3']);
+    assert.deepEqual(
+      send.mock.calls.map((call) => call.arguments.slice(0, 3)),
+      [
+        ['Two', undefined, '1'],
+        ['Three', undefined, '2'],
+      ],
+    );
+  });
+
+  it('keeps the posted segments to resume from', async (t) => {
+    const { twitter, remove } = postThread(t, 'Three');
+
+    const result = await twitter.sendThread(segments, { onFailure: 'resume' });
+
+    assert.equal(result.status, 'incomplete');
+    assert.deepEqual(result.postedTweetIds, ['2', '3']);
+    assert.equal(remove.mock.callCount(), 0);
+  });
+
+  it('only rolls back the segments posted by this call', async (t) => {
+    const { twitter, remove } = postThread(t, 'Three');
+
+    const result = await twitter.sendThread(segments, {
+      onFailure: 'rollback',
+      postedTweetIds: ['1'],
+    });
+
+    assert.equal(result.status, 'rolled_back');
+    assert.deepEqual(remove.mock.calls.map((call) => call.arguments[0]), ['2']);
+    assert.deepEqual(
+      result.segments.map((segment) => segment.status),
+      ['posted', 'deleted', 'failed'],
+    );
+    assert.deepEqual(result.postedTweetIds, ['1']);
+  });
+});